@@ -1,9 +1,10 @@
 import { Component } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
+import { LanguageSwitchComponent } from './language-switch/language-switch.component';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet],
+  imports: [RouterOutlet, LanguageSwitchComponent],
   templateUrl: './app.component.html',
   styleUrl: './app.component.scss'
 })
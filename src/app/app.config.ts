@@ -1,13 +1,16 @@
 import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
 import { provideRouter } from '@angular/router';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 
 import { routes } from './app.routes';
+import { apiInterceptor } from './interceptors/api.interceptor';
+import { mockBackendInterceptor } from './mock-backend/mock-backend.interceptor';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideZoneChangeDetection({ eventCoalescing: true }),
     provideRouter(routes),
-    provideHttpClient() // Ajout du client HTTP
+    // Client HTTP, avec délai, nouvelles tentatives et erreurs typées ; backend simulé selon l'environnement
+    provideHttpClient(withInterceptors([apiInterceptor, mockBackendInterceptor]))
   ]
 };
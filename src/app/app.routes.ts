@@ -3,5 +3,10 @@ import { WordSearchComponent } from './word-search/word-search.component';
 
 export const routes: Routes = [
   { path: '', component: WordSearchComponent },
+  { path: 'grille/:code', component: WordSearchComponent },
+  { path: 'defi', component: WordSearchComponent, data: { mode: 'defi' } },
+  // Pages secondaires chargées à la demande, hors du bundle initial
+  { path: 'stats', loadComponent: () => import('./stats/stats.component').then(m => m.StatsComponent) },
+  { path: 'rediffusion/:id', loadComponent: () => import('./replay/replay.component').then(m => m.ReplayComponent) },
   { path: '**', redirectTo: '' }
 ];
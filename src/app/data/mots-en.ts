@@ -0,0 +1,17 @@
+// Liste de mots embarquée pour le générateur local (anglais)
+export const MOTS_EN: string[] = [
+  'ant', 'bag', 'bed', 'box', 'cat', 'cup', 'dog', 'egg', 'fox', 'hat', 'ice', 'jam', 'key', 'map', 'owl', 'pen', 'sea', 'sun', 'toy', 'web',
+  'bear', 'bell', 'bird', 'boat', 'book', 'cake', 'coin', 'door', 'duck', 'fish', 'frog', 'gift', 'hill', 'kite', 'lamp', 'leaf', 'lion', 'milk',
+  'moon', 'nest', 'rain', 'ring', 'road', 'rose', 'sand', 'ship', 'snow', 'star', 'tree', 'wind', 'wolf',
+  'apple', 'bread', 'bridge', 'candle', 'carrot', 'castle', 'chair', 'cherry', 'cloud', 'desert', 'dragon', 'forest', 'garden', 'ghost',
+  'giraffe', 'guitar', 'horse', 'island', 'jacket', 'jungle', 'kitchen', 'lemon', 'market', 'monkey', 'mountain', 'orange', 'pencil',
+  'piano', 'planet', 'pocket', 'rabbit', 'river', 'rocket', 'school', 'spider', 'summer', 'tiger', 'tomato', 'train', 'turtle', 'violin',
+  'window', 'winter', 'zebra',
+  'adventure', 'airplane', 'alphabet', 'astronaut', 'backpack', 'butterfly', 'calendar', 'chocolate', 'crocodile', 'dinosaur', 'elephant',
+  'explorer', 'firework', 'football', 'grasshopper', 'hamburger', 'helicopter', 'kangaroo', 'labyrinth', 'lighthouse', 'magician',
+  'mushroom', 'notebook', 'penguin', 'pineapple', 'pyramid', 'rainbow', 'sandwich', 'squirrel', 'strawberry', 'sunflower', 'telescope',
+  'treasure', 'umbrella', 'vacation', 'volcano', 'waterfall',
+  'architecture', 'birthday', 'communication', 'construction', 'dictionary', 'electricity', 'encyclopedia', 'environment', 'extraordinary',
+  'imagination', 'international', 'mathematics', 'neighborhood', 'photography', 'refrigerator', 'responsibility', 'transformation',
+  'understanding', 'independence', 'congratulations'
+];
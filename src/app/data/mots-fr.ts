@@ -0,0 +1,19 @@
+// Liste de mots embarquée pour le générateur local (français)
+export const MOTS_FR: string[] = [
+  'ami', 'arc', 'bal', 'bol', 'cou', 'feu', 'jeu', 'lac', 'lit', 'mer', 'mur', 'nez', 'nid', 'oie', 'pot', 'riz', 'roi', 'sac', 'sel', 'thé',
+  'ange', 'arbre', 'bain', 'banc', 'bise', 'bleu', 'bois', 'café', 'chat', 'ciel', 'clou', 'coin', 'dent', 'dune', 'école', 'fête', 'fils', 'fleur',
+  'foin', 'gare', 'joie', 'jour', 'lait', 'lune', 'main', 'mars', 'miel', 'mode', 'neige', 'nuit', 'onde', 'page', 'pain', 'pied', 'pont', 'port',
+  'robe', 'rose', 'roue', 'sable', 'sapin', 'seau', 'soir', 'tour', 'vent', 'ville', 'voile',
+  'abeille', 'avion', 'balai', 'bateau', 'bougie', 'cahier', 'camion', 'carte', 'cerise', 'chaise', 'chemin', 'cheval', 'citron', 'colline',
+  'crayon', 'dauphin', 'éclair', 'église', 'étoile', 'fenêtre', 'forêt', 'fraise', 'fromage', 'gâteau', 'girafe', 'glace', 'grenier', 'guitare',
+  'hibou', 'jardin', 'journal', 'lapin', 'livre', 'maison', 'marché', 'montagne', 'musique', 'nuage', 'orange', 'oiseau', 'palais', 'panier',
+  'papillon', 'piano', 'plage', 'pomme', 'prairie', 'radis', 'renard', 'rivière', 'salade', 'soleil', 'source', 'tambour', 'tortue', 'train',
+  'trésor', 'valise', 'violon', 'voiture',
+  'ascenseur', 'aventure', 'bibliothèque', 'boulangerie', 'calendrier', 'cartable', 'champignon', 'chocolat', 'cinéma', 'crocodile',
+  'dictionnaire', 'dinosaure', 'écureuil', 'éléphant', 'escargot', 'explorateur', 'grenouille', 'hélicoptère', 'horizon', 'kangourou',
+  'labyrinthe', 'lampadaire', 'locomotive', 'magicien', 'ordinateur', 'parapluie', 'pingouin', 'pyramide', 'restaurant', 'sauterelle',
+  'télescope', 'tournesol', 'trampoline', 'vacances', 'vélo',
+  'anniversaire', 'appartement', 'astronomique', 'bouleversement', 'communication', 'développement', 'environnement', 'extraordinaire',
+  'gouvernement', 'imagination', 'merveilleusement', 'perpendiculaire', 'photographie', 'renseignement', 'électricité', 'architecture',
+  'mathématiques', 'reconnaissance', 'responsabilité', 'transformation', 'anticonstitutionnel'
+];
@@ -0,0 +1,8 @@
+import { MOTS_FR } from './mots-fr';
+import { MOTS_EN } from './mots-en';
+
+// Listes de mots disponibles hors ligne, indexées par code de langue
+export const WORD_LISTS: Record<string, string[]> = {
+  fr: MOTS_FR,
+  en: MOTS_EN
+};
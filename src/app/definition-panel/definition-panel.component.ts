@@ -0,0 +1,59 @@
+import { ChangeDetectorRef, Component, EventEmitter, Input, OnChanges, OnDestroy, Output } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { DictionaryService } from '../services/dictionary.service';
+import { DictionaryEntry } from '../services/dictionary-providers';
+import { I18nService } from '../services/i18n.service';
+import { TranslatePipe } from '../pipes/translate.pipe';
+
+/**
+ * Fiche du mot choisi (trouvé à l'instant ou cliqué dans la liste) :
+ * sa définition et ses traductions dans les autres langues.
+ */
+@Component({
+  selector: 'app-definition-panel',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './definition-panel.component.html',
+  styleUrl: './definition-panel.component.scss'
+})
+export class DefinitionPanelComponent implements OnChanges, OnDestroy {
+  @Input() word: string | null = null;
+  @Input() langue = 'fr';
+  @Output() close = new EventEmitter<void>();
+
+  entry: DictionaryEntry | null = null;
+  isLoading = false;
+
+  private subscription?: Subscription;
+
+  constructor(
+    private readonly dictionary: DictionaryService,
+    public readonly i18n: I18nService,
+    private readonly changeDetector: ChangeDetectorRef
+  ) {}
+
+  ngOnChanges(): void {
+    // Seule la réponse du dernier mot demandé est affichée
+    this.subscription?.unsubscribe();
+    this.entry = null;
+    if (!this.word) {
+      this.isLoading = false;
+      return;
+    }
+
+    this.isLoading = true;
+    this.subscription = this.dictionary.lookup(this.word, this.langue).subscribe(entry => {
+      this.entry = entry;
+      this.isLoading = false;
+      this.changeDetector.markForCheck(); // Réponse asynchrone, sous une grille en OnPush
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  get translations(): [string, string][] {
+    return Object.entries(this.entry?.traductions ?? {}).filter(([code]) => code !== this.langue);
+  }
+}
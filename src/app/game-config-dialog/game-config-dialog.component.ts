@@ -1,6 +1,13 @@
-import {Component, EventEmitter, Output, Input, OnInit} from '@angular/core';
+import {ChangeDetectorRef, Component, EventEmitter, Output, Input, OnInit, OnDestroy} from '@angular/core';
 import {CommonModule} from '@angular/common';
 import {ReactiveFormsModule, FormGroup, FormControl, Validators, ValidatorFn, AbstractControl} from '@angular/forms';
+import {SettingsService} from '../services/settings.service';
+import {MYSTERY_MAX_SIZE, normalizeWord} from '../services/grid-generator.service';
+import {ALL_DIRECTIONS, DirectionsEnum, GameService} from '../services/game.service';
+import {I18nService} from '../services/i18n.service';
+import {TranslatePipe} from '../pipes/translate.pipe';
+import {TranslationKey} from '../i18n/translations.fr';
+import {Subject, takeUntil} from 'rxjs';
 
 export interface GameConfig {
   rows: number;
@@ -9,6 +16,72 @@ export interface GameConfig {
   longueurMin: number;
   longueurMax: number;
   langue: string;
+  motsPersonnalises?: string[]; // Liste imposée par l'utilisateur, placée localement
+  defiDuJour?: string; // Date (AAAA-MM-JJ) du défi du jour auquel appartient la grille
+  directions?: DirectionsEnum[]; // Directions de placement autorisées (toutes par défaut)
+  envers?: boolean; // Mots pouvant aussi se lire à l'envers
+  titre?: string; // Titre donné à la grille importée depuis un fichier
+  marathon?: MarathonOptions; // Demande de marathon, retirée de la configuration des grilles jouées
+  mystere?: boolean; // Grille à mot mystère : les lettres restantes forment un mot à deviner
+  motMystere?: string; // Mot mystère choisi (tiré au hasard sinon)
+}
+
+export interface MarathonOptions {
+  progressif: boolean; // Difficulté augmentée à chaque grille
+}
+
+export type GameMode = 'aleatoire' | 'personnalise';
+
+const MAX_CUSTOM_WORDS = 30;
+
+export type DifficultyLevel = 'facile' | 'moyen' | 'difficile';
+
+// Réglages appliqués ensemble par les boutons de difficulté
+export interface DifficultyPreset {
+  rows: number;
+  cols: number;
+  longueurMin: number;
+  longueurMax: number;
+  directions: DirectionsEnum[];
+  envers: boolean;
+}
+
+export const DIFFICULTY_PRESETS: Record<DifficultyLevel, DifficultyPreset> = {
+  facile: {
+    rows: 8, cols: 8, longueurMin: 3, longueurMax: 6,
+    directions: [DirectionsEnum.H, DirectionsEnum.V], envers: false
+  },
+  moyen: {
+    rows: 12, cols: 12, longueurMin: 4, longueurMax: 8,
+    directions: ALL_DIRECTIONS, envers: false
+  },
+  difficile: {
+    rows: 15, cols: 15, longueurMin: 5, longueurMax: 12,
+    directions: ALL_DIRECTIONS, envers: true
+  }
+};
+
+// Libellés des directions, dans l'ordre d'affichage
+export const DIRECTION_LABELS: Record<DirectionsEnum, TranslationKey> = {
+  [DirectionsEnum.H]: 'config.direction.H',
+  [DirectionsEnum.V]: 'config.direction.V',
+  [DirectionsEnum.D2]: 'config.direction.D2',
+  [DirectionsEnum.D1]: 'config.direction.D1'
+};
+
+const PRESET_LABELS: Record<DifficultyLevel, TranslationKey> = {
+  facile: 'config.preset.facile',
+  moyen: 'config.preset.moyen',
+  difficile: 'config.preset.difficile'
+};
+
+// Découpe la saisie (lignes, virgules, points-virgules) et normalise chaque mot
+export function parseWordList(text: string | null | undefined): string[] {
+  const words = (text ?? '')
+    .split(/[\n,;]+/)
+    .map(normalizeWord)
+    .filter(word => word.length >= 2);
+  return [...new Set(words)];
 }
 
 // Validator personnalisé pour vérifier la taille de la grille (validation croisée)
@@ -18,6 +91,12 @@ const gridSizeValidator: ValidatorFn = (control: AbstractControl): { [key: strin
   const nombre = control.get('nombre')?.value;
   const longueurMin = control.get('longueurMin')?.value;
 
+  // En mode liste personnalisée, la taille est vérifiée par customWordsValidator ;
+  // avec un mot mystère, le nombre de mots découle du remplissage de la grille
+  if (control.get('mode')?.value === 'personnalise' || control.get('mystere')?.value) {
+    return null;
+  }
+
   if (rows && cols && nombre && longueurMin) {
     const gridSize = rows * cols;
     const minGridSize = nombre * longueurMin;
@@ -30,16 +109,73 @@ const gridSizeValidator: ValidatorFn = (control: AbstractControl): { [key: strin
   return null;
 };
 
+// Au moins une direction doit rester cochée
+const directionsValidator: ValidatorFn = (control: AbstractControl): { [key: string]: any } | null => {
+  return Object.values(control.value ?? {}).some(Boolean) ? null : {'noDirection': true};
+};
+
+// Grille remplissable par les listes intégrées, et mot mystère choisi laissant la majorité de la grille aux mots
+const mysteryWordValidator: ValidatorFn = (control: AbstractControl): { [key: string]: any } | null => {
+  if (control.get('mode')?.value === 'personnalise' || !control.get('mystere')?.value) {
+    return null;
+  }
+
+  const word = normalizeWord(control.get('motMystere')?.value ?? '');
+  const rows = control.get('rows')?.value;
+  const cols = control.get('cols')?.value;
+  // Les listes de mots intégrées ne suffisent pas à remplir une grille plus grande
+  if (rows > MYSTERY_MAX_SIZE || cols > MYSTERY_MAX_SIZE) {
+    return {'mysteryGridTooLarge': true};
+  }
+  if (word.length === 1) {
+    return {'mysteryTooShort': true};
+  }
+  if (rows && cols && word.length > (rows * cols) / 2) {
+    return {'mysteryTooLong': true};
+  }
+  return null;
+};
+
+// Même raisonnement que gridSizeValidator, appliqué aux mots réellement saisis
+const customWordsValidator: ValidatorFn = (control: AbstractControl): { [key: string]: any } | null => {
+  if (control.get('mode')?.value !== 'personnalise') {
+    return null;
+  }
+
+  const rows = control.get('rows')?.value;
+  const cols = control.get('cols')?.value;
+  const words = parseWordList(control.get('motsPersonnalises')?.value);
+
+  if (words.length === 0) {
+    return {'customWordsEmpty': true};
+  }
+  if (words.length > MAX_CUSTOM_WORDS) {
+    return {'customWordsTooMany': true};
+  }
+
+  if (rows && cols) {
+    const tooLong = words.filter(word => word.length > Math.max(rows, cols));
+    if (tooLong.length > 0) {
+      return {'customWordsTooLong': tooLong};
+    }
+
+    const totalLetters = words.reduce((sum, word) => sum + word.length, 0);
+    if (totalLetters > rows * cols) {
+      return {'customGridTooSmall': totalLetters};
+    }
+  }
+  return null;
+};
 
 @Component({
   selector: 'app-game-config-dialog',
   standalone: true,
   // Remplacer FormsModule par ReactiveFormsModule
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
   templateUrl: './game-config-dialog.component.html',
   styleUrl: './game-config-dialog.component.scss'
 })
-export class GameConfigDialogComponent implements OnInit {
+export class GameConfigDialogComponent implements OnInit, OnDestroy {
   @Input() isOpen = false;
   @Output() close = new EventEmitter<void>();
   @Output() confirm = new EventEmitter<GameConfig>();
@@ -51,9 +187,18 @@ export class GameConfigDialogComponent implements OnInit {
     nombre: 5,
     longueurMin: 3,
     longueurMax: 10,
-    langue: 'fr'
+    langue: 'fr',
+    directions: ALL_DIRECTIONS,
+    envers: false
   };
 
+  readonly presets = Object.keys(DIFFICULTY_PRESETS) as DifficultyLevel[];
+  readonly presetLabels = PRESET_LABELS;
+  readonly directionLabels = Object.entries(DIRECTION_LABELS) as [DirectionsEnum, TranslationKey][];
+
+  // Langues des listes de mots (backend ou listes intégrées), distinctes de la langue de l'interface
+  languages: string[] = [this.defaultValues.langue];
+
   // Définition du FormGroup pour le formulaire
   configForm = new FormGroup({
     rows: new FormControl(this.defaultValues.rows, [
@@ -86,13 +231,44 @@ export class GameConfigDialogComponent implements OnInit {
     langue: new FormControl(this.defaultValues.langue, [
       Validators.required,
     ]),
-  }, {validators: gridSizeValidator}); // Ajout du validator de taille de grille au niveau du FormGroup
+    directions: new FormGroup(
+      Object.fromEntries(ALL_DIRECTIONS.map(direction => [direction, new FormControl(true, {nonNullable: true})])) as
+        Record<DirectionsEnum, FormControl<boolean>>,
+      {validators: directionsValidator}
+    ),
+    envers: new FormControl(false, {nonNullable: true}),
+    mode: new FormControl<GameMode>('aleatoire', {nonNullable: true}),
+    motsPersonnalises: new FormControl(''),
+    marathon: new FormControl(false, {nonNullable: true}),
+    progressif: new FormControl(false, {nonNullable: true}),
+    mystere: new FormControl(false, {nonNullable: true}),
+    motMystere: new FormControl(''),
+  }, {validators: [gridSizeValidator, customWordsValidator, mysteryWordValidator]}); // Validators de taille de grille au niveau du FormGroup
+
+  // Réglage de l'application, indépendant de la configuration de la partie
+  forceLocalGenerator: FormControl<boolean>;
 
   // Conserver pour afficher l'erreur de validation croisée spécifique si nécessaire
   validationErrors: string[] = [];
 
+  private readonly destroy$ = new Subject<void>();
+
+  constructor(
+    private readonly settingsService: SettingsService,
+    private readonly gameService: GameService,
+    public readonly i18n: I18nService,
+    private readonly changeDetector: ChangeDetectorRef
+  ) {
+    this.forceLocalGenerator = new FormControl(settingsService.settings.forceLocalGenerator, {nonNullable: true});
+  }
 
   ngOnInit() {
+    this.loadLanguages();
+    // La liste change selon que la génération se fait en ligne ou hors ligne
+    this.forceLocalGenerator.valueChanges
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadLanguages());
+
     // Ajout d'une validation dynamique pour s'assurer que longueurMax est >= longueurMin
     this.configForm.get('longueurMax')?.addValidators([
       (control: AbstractControl) => {
@@ -119,9 +295,37 @@ export class GameConfigDialogComponent implements OnInit {
   }
 
 
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  private loadLanguages(): void {
+    this.gameService.getWordListLanguages(this.forceLocalGenerator.value)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(languages => {
+        this.languages = languages;
+        const langue = this.configForm.controls.langue;
+        if (!languages.includes(langue.value ?? '')) {
+          langue.setValue(languages[0]);
+        }
+        this.changeDetector.markForCheck(); // Réponse du backend, la page de jeu étant en OnPush
+      });
+  }
+
   onClose(): void {
     // Réinitialiser le formulaire à ses valeurs par défaut
-    this.configForm.reset(this.defaultValues);
+    this.configForm.reset({
+      ...this.defaultValues,
+      directions: this.toDirectionFlags(this.defaultValues.directions ?? ALL_DIRECTIONS),
+      mode: 'aleatoire',
+      motsPersonnalises: '',
+      marathon: false,
+      progressif: false,
+      mystere: false,
+      motMystere: ''
+    });
+    this.forceLocalGenerator.reset(this.settingsService.settings.forceLocalGenerator);
     this.validationErrors = []; // Effacer les erreurs spécifiques
     this.close.emit();
   }
@@ -134,16 +338,124 @@ export class GameConfigDialogComponent implements OnInit {
     // Vérification de la validation croisée spécifique (taille de grille)
     if (this.configForm.errors?.['gridTooSmall']) {
       const {rows, cols, nombre, longueurMin} = this.configForm.value;
-      this.validationErrors.push(`La grille (${rows}x${cols}) est trop petite pour ${nombre} mots de ${longueurMin} lettres minimum`);
+      this.validationErrors.push(this.i18n.translate('config.error.gridTooSmall', {
+        rows: rows ?? '', cols: cols ?? '', nombre: nombre ?? '', longueurMin: longueurMin ?? ''
+      }));
+    }
+    if (this.configForm.controls.directions.errors?.['noDirection']) {
+      this.validationErrors.push(this.i18n.translate('config.error.noDirection'));
+    }
+    this.validationErrors.push(...this.getCustomWordsErrors());
+    if (this.configForm.errors?.['mysteryGridTooLarge']) {
+      this.validationErrors.push(this.i18n.translate('config.error.mysteryGridTooLarge', {max: MYSTERY_MAX_SIZE}));
+    }
+    if (this.configForm.errors?.['mysteryTooShort']) {
+      this.validationErrors.push(this.i18n.translate('config.error.mysteryTooShort'));
+    }
+    if (this.configForm.errors?.['mysteryTooLong']) {
+      const {rows, cols} = this.configForm.value;
+      this.validationErrors.push(this.i18n.translate('config.error.mysteryTooLong', {rows: rows ?? '', cols: cols ?? ''}));
     }
 
     if (this.configForm.valid) {
+      this.settingsService.update({forceLocalGenerator: this.forceLocalGenerator.value});
       // Émettre la configuration du formulaire
-      this.confirm.emit(this.configForm.value as GameConfig);
+      this.confirm.emit(this.buildConfig());
       this.configForm.markAsPristine(); // Marquer comme pristine après confirmation réussie
     } else if (this.validationErrors.length === 0) {
-      this.validationErrors.push("Veuillez corriger les erreurs dans le formulaire.");
+      this.validationErrors.push(this.i18n.translate('config.error.invalidForm'));
+    }
+  }
+
+  applyPreset(level: DifficultyLevel): void {
+    const {directions, ...values} = DIFFICULTY_PRESETS[level];
+    this.configForm.patchValue({...values, directions: this.toDirectionFlags(directions)});
+    this.configForm.markAsDirty();
+  }
+
+  // Niveau dont tous les réglages correspondent au formulaire, s'il y en a un
+  get activePreset(): DifficultyLevel | null {
+    const {rows, cols, longueurMin, longueurMax, envers} = this.configForm.getRawValue();
+    const directions = this.selectedDirections;
+    return this.presets.find(level => {
+      const preset = DIFFICULTY_PRESETS[level];
+      return preset.rows === rows && preset.cols === cols &&
+        preset.longueurMin === longueurMin && preset.longueurMax === longueurMax &&
+        preset.envers === envers &&
+        preset.directions.length === directions.length && preset.directions.every(d => directions.includes(d));
+    }) ?? null;
+  }
+
+  private get selectedDirections(): DirectionsEnum[] {
+    const flags = this.configForm.controls.directions.getRawValue();
+    return ALL_DIRECTIONS.filter(direction => flags[direction]);
+  }
+
+  private toDirectionFlags(directions: DirectionsEnum[]): Record<DirectionsEnum, boolean> {
+    return Object.fromEntries(ALL_DIRECTIONS.map(direction => [direction, directions.includes(direction)])) as
+      Record<DirectionsEnum, boolean>;
+  }
+
+  get isCustomMode(): boolean {
+    return this.configForm.controls.mode.value === 'personnalise';
+  }
+
+  get isMysteryMode(): boolean {
+    return !this.isCustomMode && this.configForm.controls.mystere.value;
+  }
+
+  // Aperçu des mots tels qu'ils apparaîtront dans la grille
+  get customWords(): string[] {
+    return parseWordList(this.configForm.controls.motsPersonnalises.value);
+  }
+
+  private buildConfig(): GameConfig {
+    const {
+      mode, motsPersonnalises, directions: _, marathon, progressif, mystere, motMystere, ...values
+    } = this.configForm.getRawValue();
+    const config = {...values, directions: this.selectedDirections};
+    if (mode !== 'personnalise') {
+      // Le marathon enchaîne des grilles aléatoires ; une liste personnalisée ne donne qu'une grille
+      return {
+        ...config,
+        ...(marathon ? {marathon: {progressif}} : {}),
+        // Mot mystère laissé vide : il sera tiré au hasard
+        ...(mystere ? {mystere, motMystere: normalizeWord(motMystere ?? '') || undefined} : {})
+      } as GameConfig;
+    }
+
+    const words = parseWordList(motsPersonnalises);
+    const lengths = words.map(word => word.length);
+    return {
+      ...config,
+      nombre: words.length,
+      longueurMin: Math.min(...lengths),
+      longueurMax: Math.max(...lengths),
+      motsPersonnalises: words
+    } as GameConfig;
+  }
+
+  private getCustomWordsErrors(): string[] {
+    const errors = this.configForm.errors;
+    const {rows, cols} = this.configForm.value;
+
+    if (errors?.['customWordsEmpty']) {
+      return [this.i18n.translate('config.error.customEmpty')];
+    }
+    if (errors?.['customWordsTooMany']) {
+      return [this.i18n.translate('config.error.customTooMany', {max: MAX_CUSTOM_WORDS})];
+    }
+    if (errors?.['customWordsTooLong']) {
+      return [this.i18n.translate('config.error.customTooLong', {
+        rows: rows ?? '', cols: cols ?? '', words: errors['customWordsTooLong'].join(', ')
+      })];
+    }
+    if (errors?.['customGridTooSmall']) {
+      return [this.i18n.translate('config.error.customGridTooSmall', {
+        rows: rows ?? '', cols: cols ?? '', letters: errors['customGridTooSmall']
+      })];
     }
+    return [];
   }
 
   onBackdropClick(event: MouseEvent): void {
@@ -166,23 +478,23 @@ export class GameConfigDialogComponent implements OnInit {
     }
 
     if (controlName === 'longueurMax' && control.errors['minMaxMismatch']) {
-      return 'Doit être supérieure ou égale à la longueur min.';
+      return this.i18n.translate('config.error.minMaxMismatch');
     }
 
     if (controlName === 'longueurMin' && control.errors['maxMinMismatch']) {
-      return 'Doit être inférieure ou égale à la longueur max.';
+      return this.i18n.translate('config.error.maxMinMismatch');
     }
 
     if (control.errors['required']) {
-      return 'Ce champ est requis.';
+      return this.i18n.translate('config.error.required');
     }
     if (control.errors['min']) {
-      return `Valeur minimale: ${control.errors['min'].min}.`;
+      return this.i18n.translate('config.error.min', {min: control.errors['min'].min});
     }
     if (control.errors['max']) {
-      return `Valeur maximale: ${control.errors['max'].max}.`;
+      return this.i18n.translate('config.error.max', {max: control.errors['max'].max});
     }
 
-    return 'Valeur invalide.';
+    return this.i18n.translate('config.error.invalid');
   }
 }
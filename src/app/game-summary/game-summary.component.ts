@@ -0,0 +1,59 @@
+import { ChangeDetectorRef, Component, Input, OnChanges, OnDestroy } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { DictionaryService } from '../services/dictionary.service';
+import { DictionaryEntry } from '../services/dictionary-providers';
+import { I18nService } from '../services/i18n.service';
+import { TranslatePipe } from '../pipes/translate.pipe';
+
+// Ligne du récapitulatif : le mot de la grille et sa définition, s'il y en a une
+export interface SummaryItem {
+  word: string;
+  entry: DictionaryEntry | null;
+}
+
+/**
+ * Récapitulatif de fin de partie : tous les mots de la grille avec leur définition
+ * et leurs traductions, pour retenir le vocabulaire rencontré.
+ */
+@Component({
+  selector: 'app-game-summary',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './game-summary.component.html',
+  styleUrl: './game-summary.component.scss'
+})
+export class GameSummaryComponent implements OnChanges, OnDestroy {
+  @Input() words: string[] = [];
+  @Input() langue = 'fr';
+
+  items: SummaryItem[] = [];
+  isLoading = false;
+
+  private subscription?: Subscription;
+
+  constructor(
+    private readonly dictionary: DictionaryService,
+    public readonly i18n: I18nService,
+    private readonly changeDetector: ChangeDetectorRef
+  ) {}
+
+  ngOnChanges(): void {
+    this.subscription?.unsubscribe();
+    this.items = this.words.map(word => ({ word, entry: null }));
+    this.isLoading = this.words.length > 0;
+
+    this.subscription = this.dictionary.lookupAll(this.words, this.langue).subscribe(entries => {
+      this.items = this.words.map((word, i) => ({ word, entry: entries[i] }));
+      this.isLoading = false;
+      this.changeDetector.markForCheck(); // Réponse asynchrone, sous une grille en OnPush
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  translationsOf(entry: DictionaryEntry): [string, string][] {
+    return Object.entries(entry.traductions).filter(([code]) => code !== this.langue);
+  }
+}
@@ -0,0 +1,49 @@
+import { ChangeDetectionStrategy, Component, computed, input } from '@angular/core';
+import { Cell } from '../services/game.service';
+import { cellClasses } from '../services/game-store';
+import { I18nService } from '../services/i18n.service';
+
+/**
+ * Cellule de la grille. En OnPush, elle n'est redessinée que si sa cellule (immuable),
+ * le curseur clavier ou le mot survolé la concernant changent : étendre une sélection
+ * ne met à jour que les cellules qui y entrent ou en sortent.
+ * Les événements du pointeur sont écoutés par la grille, sur l'élément hôte.
+ */
+@Component({
+  selector: 'app-grid-cell',
+  standalone: true,
+  templateUrl: './grid-cell.component.html',
+  styleUrl: './grid-cell.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    role: 'gridcell',
+    '[class]': 'classes()',
+    '[attr.data-row]': 'cell().row',
+    '[attr.data-col]': 'cell().col',
+    '[attr.tabindex]': 'focusable() ? 0 : -1',
+    '[attr.aria-selected]': 'cell().isSelected',
+    '[attr.aria-label]': 'label()'
+  }
+})
+export class GridCellComponent {
+  readonly cell = input.required<Cell>();
+  readonly focusable = input(false); // Position du curseur clavier (tabindex itinérant)
+  readonly highlightedWord = input<string | null>(null);
+
+  readonly classes = computed(() => cellClasses(this.cell(), this.highlightedWord()));
+
+  readonly label = computed(() => {
+    const cell = this.cell();
+    const label = this.i18n.translate('game.cellLabel', { letter: cell.letter, row: cell.row + 1, col: cell.col + 1 });
+    const and = this.i18n.translate('game.and');
+    if (cell.foundBy.length > 0) {
+      return this.i18n.translate('game.cellFoundIn', { label, words: cell.foundBy.join(and) });
+    }
+    if (cell.revealedBy.length > 0) {
+      return this.i18n.translate('game.cellRevealedIn', { label, words: cell.revealedBy.join(and) });
+    }
+    return label;
+  });
+
+  constructor(private readonly i18n: I18nService) {}
+}
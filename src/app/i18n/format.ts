@@ -0,0 +1,6 @@
+export type MessageParams = Record<string, string | number>;
+
+// Remplace les paramètres {nom} d'un texte traduit ; un paramètre absent est laissé tel quel
+export function formatMessage(template: string, params: MessageParams = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+}
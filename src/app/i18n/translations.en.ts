@@ -0,0 +1,277 @@
+import { TranslationKey } from './translations.fr';
+
+export const EN: Record<TranslationKey, string> = {
+  'app.language': 'Interface language',
+
+  'header.subtitle': 'By Damanime & Solarius',
+  'header.daily': '📅 Daily challenge',
+  'header.stats': '📊 Statistics',
+  'header.import': '📂 Import',
+  'header.share': 'Share',
+  'header.linkCopied': 'Link copied!',
+  'header.newGame': 'New Game',
+  'header.loading': 'Loading...',
+
+  'game.error': '❌ Error:',
+  'game.retry': 'Try again with other settings',
+  'game.warning': '⚠️ Warning:',
+  'game.generating': 'Generating the grid...',
+  'game.dailyDone.title': '📅 Daily challenge already played',
+  'game.dailyDone.completed': 'You finished it in {duration}. Compare your time with the team!',
+  'game.dailyDone.abandoned': 'You gave up on today\'s challenge.',
+  'game.dailyDone.tomorrow': 'A new challenge awaits you tomorrow.',
+  'game.dailyDone.freePlay': 'Play a free game',
+  'game.dailyBadge': '📅 Daily challenge · {date}',
+  'game.wordsTitle': 'Words to find',
+  'game.progress': '{found} / {total} found',
+  'game.elapsed': 'Elapsed time',
+  'game.hint': '💡 Hint',
+  'game.abandon': '🏳️ Give up',
+  'game.abandonConfirm': 'Give up this game? The remaining words will be revealed and the grid will count as abandoned.',
+  'game.hintLevel': 'Hint level',
+  'game.wordFound': '{word}, found',
+  'game.wordRevealed': '{word}, revealed',
+  'game.revealed': 'Revealed word',
+  'game.victory.title': '🎉 Well done!',
+  'game.victory.allFound': 'All the words have been found!',
+  'game.victory.duration': '🕑 in {duration}',
+  'game.victory.hintsOne': '💡 with 1 hint',
+  'game.victory.hintsMany': '💡 with {count} hints',
+  'game.victory.noHints': '✨ without any hint',
+  'game.abandoned.title': '🏳️ Game abandoned',
+  'game.abandoned.found': '{found} of {total} words found, the others have been revealed.',
+  'game.gridHelp': 'Arrow keys to move, Home, End, Page Up and Page Down for diagonals. Enter or Space to start a selection, then to confirm it. Escape to cancel it.',
+  'game.gridLabel': 'Letter grid',
+  'game.cellLabel': '{letter}, row {row}, column {col}',
+  'game.cellFoundIn': '{label}, found in {words}',
+  'game.cellRevealedIn': '{label}, revealed in {words}',
+  'game.and': ' and ',
+  'game.sheetTitle': 'Mêlimemots · {rows}x{cols}',
+  'game.sheetTitleDaily': 'Mêlimemots · Challenge of {date}',
+  'game.answerKey': 'Answer key',
+
+  'announce.cancelled': 'Selection cancelled.',
+  'announce.selection': 'Selection: {word}',
+  'announce.started': 'Selection started on {letter}. Move, then confirm with Enter.',
+  'announce.notAWord': '{word} is not one of the words to find.',
+  'announce.found': 'Word found: {word}. {found} of {total}.',
+  'announce.allFound': 'Word found: {word}. Well done, all the words have been found!',
+  'announce.allFoundMystery': 'Word found: {word}. All the words have been found, now guess the mystery word.',
+  'announce.abandoned': 'Game abandoned: {count} words will be revealed on the grid.',
+
+  'error.shareUnavailable': 'This grid cannot be shared.',
+  'error.sharePrompt': 'Copy this link to share the grid:',
+  'error.dailyGeneration': 'Unable to generate the daily challenge.',
+  'error.sharedLink': 'Unable to open this shared grid.',
+  'error.mysteryGrid': 'Unable to create a mystery word grid with these settings.',
+  'error.customGrid': 'Unable to create a grid with this word list.',
+  'error.importFile': 'Unable to read this grid file.',
+  'error.invalidResponse': 'The server returned an unplayable grid: {message}',
+  'error.puzzleFile': 'Invalid grid file: {detail}',
+  'error.puzzleCode': 'This grid link is invalid or has been altered ({reason}).',
+  'error.localFallback': 'Grid generated on this device instead of the server. {reason}',
+  'error.unplaced': 'These words could not be placed in the grid: {words}. Try a bigger grid.',
+  'error.unknown': 'An error occurred while generating the grid. Try other settings.',
+
+  'api.hors-ligne': 'Unable to reach the server. Check that the backend is running.',
+  'api.delai': 'The server is taking too long to respond. Try again in a moment.',
+  'api.serveur': 'Server error. The grid could not be generated with these settings.',
+  'api.requete': 'The server rejected these settings. Try other ones.',
+  'api.inconnue': 'An error occurred while generating the grid. Try other settings.',
+  'api.fields': 'Settings rejected by the server: {fields}.',
+
+  'generator.noWordList': 'No offline word list is available for the language "{langue}".',
+  'generator.notEnoughWords': 'Not enough words of {min} to {max} letters to generate {count} words offline.',
+  'generator.gridTooSmall': 'Unable to place {count} words in a {rows}x{cols} grid. Try a bigger grid.',
+  'generator.nonePlaced': 'None of the words could be placed in a {rows}x{cols} grid.',
+  'generator.mysteryTooLong': 'The mystery word must take up at most half of a {rows}x{cols} grid.',
+  'generator.mysteryTooLarge': 'A mystery word grid is at most {max}x{max}.',
+  'generator.mysteryFailed': 'Unable to fill a {rows}x{cols} grid around the mystery word "{word}". Try other word lengths or more directions.',
+
+  'validation.gridShape': 'The grid must be a non-empty array of rows.',
+  'validation.emptySolution': 'The solution must contain at least one word.',
+  'validation.emptyRow': 'The first row of the grid is empty.',
+  'validation.rowLength': 'Row {row} has {count} letters instead of {cols}.',
+  'validation.notALetter': 'The cell at row {row}, column {col} is not a letter.',
+  'validation.wordShape': 'Word #{index} must have a text, a start cell and a direction.',
+  'validation.unknownDirection': 'The direction [{dr}, {dc}] of the word "{word}" is not one of the 8 directions.',
+  'validation.outOfGrid': 'The word "{word}" goes beyond the {rows}x{cols} grid.',
+  'validation.mismatch': 'The grid letters ({letters}) do not match the word "{word}".',
+  'validation.duplicate': 'The word "{word}" appears several times in the solution.',
+  'validation.mysteryShape': 'The mystery word must be a word of at least one letter.',
+  'validation.mysteryLetters': 'The leftover letters of the grid ({letters}) do not spell the mystery word "{word}".',
+  'validation.dimensions': 'The grid is {rows}x{cols} instead of {expectedRows}x{expectedCols}.',
+  'validation.wordCount': 'The grid contains {count} words instead of {expected}.',
+  'validation.forbiddenDirection': 'The word "{word}" is placed in a direction that is not allowed [{dr}, {dc}].',
+
+  'puzzleFile.json': 'the content is not valid JSON.',
+  'puzzleFile.format': 'the "format" field must be "{format}".',
+  'puzzleFile.version': 'version {version} is not supported (expected: {expected}).',
+  'puzzleFile.title': 'the title is required.',
+  'puzzleFile.author': 'the author must be a text.',
+  'puzzleFile.language': 'the language must be a two-letter code (e.g. "en").',
+  'puzzleFile.date': 'the creation date must be an ISO 8601 date.',
+  'puzzleFile.configNumbers': 'the configuration must contain the integers {fields}.',
+  'puzzleFile.configSize': 'the configuration states {rows}x{cols} but the grid is {gridRows}x{gridCols}.',
+  'puzzleFile.configField': 'the "{field}" field of the configuration is malformed.',
+
+  'puzzleCode.tooShort': 'code too short',
+  'puzzleCode.checksum': 'wrong checksum',
+  'puzzleCode.version': 'version {version} is not supported',
+  'puzzleCode.empty': 'empty grid',
+  'puzzleCode.letters': 'incomplete grid letters',
+  'puzzleCode.placement': 'wrong placement for word {index}',
+  'puzzleCode.outOfGrid': 'word {index} goes beyond the grid',
+  'puzzleCode.inconsistent': 'inconsistent grid',
+  'puzzleCode.characters': 'characters not allowed',
+  'puzzleCode.encoding': 'unreadable encoding',
+
+  'score.title': 'Score',
+  'score.combo': 'Combo ×{count}',
+  'score.words': 'Words found',
+  'score.speed': 'Speed bonus',
+  'score.combos': 'Chain bonus',
+  'score.hints': 'Hints',
+  'score.errors': 'Wrong selections',
+  'score.perWord': 'Points per word',
+  'score.col.word': 'Word',
+  'score.col.base': 'Base',
+  'score.col.direction': 'Direction',
+  'score.col.speed': 'Speed',
+  'score.col.combo': 'Combo',
+  'score.col.total': 'Total',
+
+  'definition.title': 'Definition',
+  'definition.show': 'Show the definition of {word}',
+  'definition.close': 'Close the definition',
+  'definition.loading': 'Looking up the definition...',
+  'definition.none': 'No definition available for this word.',
+
+  'summary.title': '📖 Words of this game',
+  'summary.intro': 'Review the {count} words of the grid and their definitions.',
+  'summary.translation': '{language}: {word}',
+
+  'tools.printAnswerKey': 'Print with the answer key',
+  'tools.print': '🖨️ Print',
+  'tools.svgGrid': 'Grid SVG',
+  'tools.svgAnswerKey': 'Answer key SVG',
+  'tools.author': 'Author (optional)',
+  'tools.export': '💾 Export the grid',
+
+  'config.title': 'Game settings',
+  'config.difficulty': 'Difficulty',
+  'config.preset.facile': 'Easy',
+  'config.preset.moyen': 'Medium',
+  'config.preset.difficile': 'Hard',
+  'config.wordsChoice': 'Choice of words',
+  'config.mode.random': 'Random words',
+  'config.mode.custom': 'My own grid',
+  'config.customWords': 'My words',
+  'config.customWordsPlaceholder': 'One word per line, or separated by commas',
+  'config.customWordsHelp': 'Accents, capitals and spaces are removed.',
+  'config.customWordsPreviewOne': '1 word: {words}',
+  'config.customWordsPreviewMany': '{count} words: {words}',
+  'config.rows': 'Number of rows',
+  'config.cols': 'Number of columns',
+  'config.nombre': 'Number of words',
+  'config.longueurMin': 'Minimum word length',
+  'config.longueurMax': 'Maximum word length',
+  'config.range': 'Between {min} and {max}',
+  'config.directions': 'Word directions',
+  'config.direction.H': 'Horizontal →',
+  'config.direction.V': 'Vertical ↓',
+  'config.direction.D2': 'Diagonal down ↘',
+  'config.direction.D1': 'Diagonal up ↗',
+  'config.envers': 'Backward words',
+  'config.enversHelp': 'Words can also read right to left or bottom to top',
+  'config.langue': 'Word language',
+  'config.mystery': 'Mystery word',
+  'config.mysteryHelp': 'Once every word is crossed out, the leftover letters spell a word to guess; the grid is filled with words',
+  'config.mysteryWord': 'Chosen mystery word',
+  'config.mysteryWordPlaceholder': 'Picked at random if empty',
+  'config.marathon': 'Marathon mode',
+  'config.marathonHelp': 'Grids follow one another until you give up; the next one is prepared while you play',
+  'config.marathonProgressive': 'Increasing difficulty (more words, larger grid)',
+  'config.offline': 'Generate the grid offline',
+  'config.offlineHelp': 'Uses the built-in word lists without contacting the server',
+  'config.cancel': 'Cancel',
+  'config.confirm': 'Generate the grid',
+
+  'config.error.gridTooSmall': 'The grid ({rows}x{cols}) is too small for {nombre} words of at least {longueurMin} letters',
+  'config.error.noDirection': 'Choose at least one direction to place the words.',
+  'config.error.invalidForm': 'Please fix the errors in the form.',
+  'config.error.customEmpty': 'Enter at least one word of 2 letters or more.',
+  'config.error.customTooMany': 'The list cannot exceed {max} words.',
+  'config.error.customTooLong': 'Too long for a {rows}x{cols} grid: {words}',
+  'config.error.customGridTooSmall': 'The grid ({rows}x{cols}) is too small for {letters} letters in total',
+  'config.error.mysteryGridTooLarge': 'A mystery word grid is at most {max}x{max}.',
+  'config.error.mysteryTooShort': 'The mystery word must have at least 2 letters.',
+  'config.error.mysteryTooLong': 'The mystery word is too long for a {rows}x{cols} grid.',
+  'config.error.minMaxMismatch': 'Must be greater than or equal to the minimum length.',
+  'config.error.maxMinMismatch': 'Must be less than or equal to the maximum length.',
+  'config.error.required': 'This field is required.',
+  'config.error.min': 'Minimum value: {min}.',
+  'config.error.max': 'Maximum value: {max}.',
+  'config.error.invalid': 'Invalid value.',
+
+  'stats.title': 'Statistics',
+  'stats.back': '← Back to the game',
+  'stats.gamesPlayed': 'Games played',
+  'stats.gamesCompleted': 'Completed',
+  'stats.gamesAbandoned': 'Abandoned',
+  'stats.totalTime': 'Total play time',
+  'stats.wordsFound': 'Words found',
+  'stats.averageTimePerWord': 'Average time per word',
+  'stats.dayStreak': 'Days in a row (record)',
+  'stats.winStreak': 'Grids completed in a row (record)',
+  'stats.bestTimes': 'Best times',
+  'stats.noBestTime': 'No grid completed yet.',
+  'stats.history': 'History',
+  'stats.exportJson': 'Export JSON',
+  'stats.exportCsv': 'Export CSV',
+  'stats.clear': 'Clear',
+  'stats.clearConfirm': 'Permanently clear the whole game history?',
+  'stats.col.grid': 'Grid',
+  'stats.col.time': 'Time',
+  'stats.col.date': 'Date',
+  'stats.col.words': 'Words',
+  'stats.col.hints': 'Hints',
+  'stats.col.score': 'Score',
+  'stats.col.status': 'Status',
+  'stats.col.replay': 'Replay',
+  'stats.outcome.terminee': 'Completed',
+  'stats.outcome.abandonnee': 'Abandoned',
+  'stats.empty': 'No game recorded yet. Finish or abandon a grid to see your statistics.',
+  'stats.dateFormat': 'MM/dd/yyyy h:mm a',
+
+  'mystery.pending': '🔍 The {count} leftover letters will spell the mystery word.',
+  'mystery.prompt': '🔍 Mystery word ({count} letters): read the leftover letters',
+  'mystery.submit': 'Check',
+  'mystery.wrong': '"{guess}" is not the mystery word.',
+  'mystery.solved': '🔍 Mystery word found: {word}',
+  'mystery.revealed': '🔍 The mystery word was: {word}',
+
+  'marathon.title': 'Marathon',
+  'marathon.grid': 'Grid #{number}',
+  'marathon.cleared': 'Grids cleared: {count}',
+  'marathon.totalTime': 'Total time',
+  'marathon.progressive': 'Increasing difficulty',
+  'marathon.next': 'Next grid…',
+  'marathon.stop': 'Stop',
+
+  'replay.title': 'Replay',
+  'replay.back': '← Back to statistics',
+  'replay.watch': 'Watch the replay',
+  'replay.grid': '{rows}x{cols} grid · {langue}',
+  'replay.play': '▶ Play',
+  'replay.pause': '⏸ Pause',
+  'replay.speed': 'Playback speed',
+  'replay.position': 'Position in the game',
+  'replay.timeline': 'Selection timeline',
+  'replay.accepted': '✓ Word found: {word}',
+  'replay.rejected': '✗ Rejected selection: {word}',
+  'replay.progress': '{found} / {total} words found',
+  'replay.finds': 'Words found',
+  'replay.noFinds': 'No word was found during this game.',
+  'replay.notFound': 'Replay not found: only the last {count} games are kept.'
+};
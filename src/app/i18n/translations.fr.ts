@@ -0,0 +1,279 @@
+// Textes de l'interface en français, langue de référence : toutes les clés sont définies ici.
+// Les paramètres s'écrivent {nom} et sont remplacés par I18nService.translate.
+export const FR = {
+  'app.language': 'Langue de l\'interface',
+
+  'header.subtitle': 'By Damanime & Solarius',
+  'header.daily': '📅 Défi du jour',
+  'header.stats': '📊 Statistiques',
+  'header.import': '📂 Importer',
+  'header.share': 'Partager',
+  'header.linkCopied': 'Lien copié !',
+  'header.newGame': 'Nouvelle Partie',
+  'header.loading': 'Chargement...',
+
+  'game.error': '❌ Erreur :',
+  'game.retry': 'Réessayer avec d\'autres paramètres',
+  'game.warning': '⚠️ Attention :',
+  'game.generating': 'Génération de la grille...',
+  'game.dailyDone.title': '📅 Défi du jour déjà relevé',
+  'game.dailyDone.completed': 'Vous l\'avez terminé en {duration}. Comparez votre temps avec l\'équipe !',
+  'game.dailyDone.abandoned': 'Vous avez abandonné le défi d\'aujourd\'hui.',
+  'game.dailyDone.tomorrow': 'Un nouveau défi vous attend demain.',
+  'game.dailyDone.freePlay': 'Jouer une partie libre',
+  'game.dailyBadge': '📅 Défi du jour · {date}',
+  'game.wordsTitle': 'Mots à trouver',
+  'game.progress': '{found} / {total} trouvés',
+  'game.elapsed': 'Temps écoulé',
+  'game.hint': '💡 Indice',
+  'game.abandon': '🏳️ Abandonner',
+  'game.abandonConfirm': 'Abandonner la partie ? Les mots restants seront révélés et la grille comptera comme abandonnée.',
+  'game.hintLevel': 'Niveau d\'indice',
+  'game.wordFound': '{word}, trouvé',
+  'game.wordRevealed': '{word}, révélé',
+  'game.revealed': 'Mot révélé',
+  'game.victory.title': '🎉 Bravo !',
+  'game.victory.allFound': 'Tous les mots ont été trouvés !',
+  'game.victory.duration': '🕑 en {duration}',
+  'game.victory.hintsOne': '💡 avec 1 indice',
+  'game.victory.hintsMany': '💡 avec {count} indices',
+  'game.victory.noHints': '✨ sans aucun indice',
+  'game.abandoned.title': '🏳️ Partie abandonnée',
+  'game.abandoned.found': '{found} mots trouvés sur {total}, les autres ont été révélés.',
+  'game.gridHelp': 'Flèches pour vous déplacer, Début, Fin, Page précédente et Page suivante pour les diagonales. Entrée ou Espace pour commencer une sélection, puis pour la valider. Échap pour l\'annuler.',
+  'game.gridLabel': 'Grille de lettres',
+  'game.cellLabel': '{letter}, ligne {row}, colonne {col}',
+  'game.cellFoundIn': '{label}, trouvée dans {words}',
+  'game.cellRevealedIn': '{label}, révélée dans {words}',
+  'game.and': ' et ',
+  'game.sheetTitle': 'Mêlimemots · {rows}x{cols}',
+  'game.sheetTitleDaily': 'Mêlimemots · Défi du {date}',
+  'game.answerKey': 'Corrigé',
+
+  'announce.cancelled': 'Sélection annulée.',
+  'announce.selection': 'Sélection : {word}',
+  'announce.started': 'Sélection commencée sur {letter}. Déplacez-vous puis validez avec Entrée.',
+  'announce.notAWord': '{word} ne fait pas partie des mots à trouver.',
+  'announce.found': 'Mot trouvé : {word}. {found} sur {total}.',
+  'announce.allFound': 'Mot trouvé : {word}. Bravo, tous les mots ont été trouvés !',
+  'announce.allFoundMystery': 'Mot trouvé : {word}. Tous les mots ont été trouvés, devinez maintenant le mot mystère.',
+  'announce.abandoned': 'Partie abandonnée : {count} mots vont être révélés sur la grille.',
+
+  'error.shareUnavailable': 'Cette grille ne peut pas être partagée.',
+  'error.sharePrompt': 'Copiez ce lien pour partager la grille :',
+  'error.dailyGeneration': 'Impossible de générer le défi du jour.',
+  'error.sharedLink': 'Impossible d\'ouvrir cette grille partagée.',
+  'error.mysteryGrid': 'Impossible de créer une grille à mot mystère avec ces réglages.',
+  'error.customGrid': 'Impossible de créer une grille avec cette liste de mots.',
+  'error.importFile': 'Impossible de lire ce fichier de grille.',
+  'error.invalidResponse': 'Le serveur a renvoyé une grille injouable : {message}',
+  'error.puzzleFile': 'Fichier de grille invalide : {detail}',
+  'error.puzzleCode': 'Ce lien de grille est invalide ou a été modifié ({reason}).',
+  'error.localFallback': 'Grille générée sur cet appareil à la place du serveur. {reason}',
+  'error.unplaced': 'Ces mots n\'ont pas pu être placés dans la grille : {words}. Essayez une grille plus grande.',
+  'error.unknown': 'Une erreur est survenue lors de la génération de la grille. Essayez avec d\'autres paramètres.',
+
+  'api.hors-ligne': 'Impossible de se connecter au serveur. Vérifiez que le backend est démarré.',
+  'api.delai': 'Le serveur met trop de temps à répondre. Réessayez dans un instant.',
+  'api.serveur': 'Erreur serveur. La grille n\'a pas pu être générée avec ces paramètres.',
+  'api.requete': 'Le serveur a refusé ces paramètres. Essayez avec d\'autres réglages.',
+  'api.inconnue': 'Une erreur est survenue lors de la génération de la grille. Essayez avec d\'autres paramètres.',
+  'api.fields': 'Paramètres refusés par le serveur : {fields}.',
+
+  'generator.noWordList': 'Aucune liste de mots disponible hors ligne pour la langue « {langue} ».',
+  'generator.notEnoughWords': 'Pas assez de mots de {min} à {max} lettres pour générer {count} mots hors ligne.',
+  'generator.gridTooSmall': 'Impossible de placer {count} mots dans une grille {rows}x{cols}. Essayez une grille plus grande.',
+  'generator.nonePlaced': 'Aucun mot de la liste n\'a pu être placé dans une grille {rows}x{cols}.',
+  'generator.mysteryTooLong': 'Le mot mystère doit occuper au plus la moitié d\'une grille {rows}x{cols}.',
+  'generator.mysteryTooLarge': 'Une grille à mot mystère mesure au plus {max}x{max}.',
+  'generator.mysteryFailed': 'Impossible de remplir une grille {rows}x{cols} autour du mot mystère « {word} ». Essayez d\'autres longueurs de mots ou plus de directions.',
+
+  'validation.gridShape': 'La grille doit être un tableau non vide de lignes.',
+  'validation.emptySolution': 'La solution doit contenir au moins un mot.',
+  'validation.emptyRow': 'La première ligne de la grille est vide.',
+  'validation.rowLength': 'La ligne {row} contient {count} lettres au lieu de {cols}.',
+  'validation.notALetter': 'La case ligne {row}, colonne {col} ne contient pas une lettre.',
+  'validation.wordShape': 'Le mot n°{index} doit avoir un texte, une case de départ et une direction.',
+  'validation.unknownDirection': 'La direction [{dr}, {dc}] du mot « {word} » n\'est pas une des 8 directions.',
+  'validation.outOfGrid': 'Le mot « {word} » sort de la grille {rows}x{cols}.',
+  'validation.mismatch': 'Les lettres de la grille ({letters}) ne correspondent pas au mot « {word} ».',
+  'validation.duplicate': 'Le mot « {word} » apparaît plusieurs fois dans la solution.',
+  'validation.mysteryShape': 'Le mot mystère doit être un mot d\'au moins une lettre.',
+  'validation.mysteryLetters': 'Les lettres restantes de la grille ({letters}) ne forment pas le mot mystère « {word} ».',
+  'validation.dimensions': 'La grille mesure {rows}x{cols} au lieu de {expectedRows}x{expectedCols}.',
+  'validation.wordCount': 'La grille contient {count} mots au lieu de {expected}.',
+  'validation.forbiddenDirection': 'Le mot « {word} » est placé dans une direction non autorisée [{dr}, {dc}].',
+
+  'puzzleFile.json': 'le contenu n\'est pas du JSON valide.',
+  'puzzleFile.format': 'le champ "format" doit valoir "{format}".',
+  'puzzleFile.version': 'version {version} non prise en charge (attendue : {expected}).',
+  'puzzleFile.title': 'le titre est obligatoire.',
+  'puzzleFile.author': 'l\'auteur doit être un texte.',
+  'puzzleFile.language': 'la langue doit être un code à deux lettres (ex. "fr").',
+  'puzzleFile.date': 'la date de création doit être une date ISO 8601.',
+  'puzzleFile.configNumbers': 'la configuration doit contenir les entiers {fields}.',
+  'puzzleFile.configSize': 'la configuration annonce {rows}x{cols} mais la grille mesure {gridRows}x{gridCols}.',
+  'puzzleFile.configField': 'le champ "{field}" de la configuration est mal formé.',
+
+  'puzzleCode.tooShort': 'code trop court',
+  'puzzleCode.checksum': 'somme de contrôle incorrecte',
+  'puzzleCode.version': 'version {version} non prise en charge',
+  'puzzleCode.empty': 'grille vide',
+  'puzzleCode.letters': 'lettres de la grille incomplètes',
+  'puzzleCode.placement': 'placement du mot {index} incorrect',
+  'puzzleCode.outOfGrid': 'le mot {index} sort de la grille',
+  'puzzleCode.inconsistent': 'grille incohérente',
+  'puzzleCode.characters': 'caractères non autorisés',
+  'puzzleCode.encoding': 'encodage illisible',
+
+  'score.title': 'Score',
+  'score.combo': 'Combo ×{count}',
+  'score.words': 'Mots trouvés',
+  'score.speed': 'Bonus de rapidité',
+  'score.combos': 'Bonus d\'enchaînement',
+  'score.hints': 'Indices',
+  'score.errors': 'Erreurs de sélection',
+  'score.perWord': 'Points par mot',
+  'score.col.word': 'Mot',
+  'score.col.base': 'Base',
+  'score.col.direction': 'Sens',
+  'score.col.speed': 'Rapidité',
+  'score.col.combo': 'Combo',
+  'score.col.total': 'Total',
+
+  'definition.title': 'Définition',
+  'definition.show': 'Voir la définition de {word}',
+  'definition.close': 'Fermer la définition',
+  'definition.loading': 'Recherche de la définition...',
+  'definition.none': 'Aucune définition disponible pour ce mot.',
+
+  'summary.title': '📖 Les mots de la partie',
+  'summary.intro': 'Retrouvez les {count} mots de la grille et leur définition.',
+  'summary.translation': '{language} : {word}',
+
+  'tools.printAnswerKey': 'Imprimer avec le corrigé',
+  'tools.print': '🖨️ Imprimer',
+  'tools.svgGrid': 'SVG grille',
+  'tools.svgAnswerKey': 'SVG corrigé',
+  'tools.author': 'Auteur (facultatif)',
+  'tools.export': '💾 Exporter la grille',
+
+  'config.title': 'Configuration de la partie',
+  'config.difficulty': 'Difficulté',
+  'config.preset.facile': 'Facile',
+  'config.preset.moyen': 'Moyen',
+  'config.preset.difficile': 'Difficile',
+  'config.wordsChoice': 'Choix des mots',
+  'config.mode.random': 'Mots aléatoires',
+  'config.mode.custom': 'Ma propre grille',
+  'config.customWords': 'Mes mots',
+  'config.customWordsPlaceholder': 'Un mot par ligne, ou séparés par des virgules',
+  'config.customWordsHelp': 'Accents, majuscules et espaces sont retirés.',
+  'config.customWordsPreviewOne': '1 mot : {words}',
+  'config.customWordsPreviewMany': '{count} mots : {words}',
+  'config.rows': 'Nombre de lignes',
+  'config.cols': 'Nombre de colonnes',
+  'config.nombre': 'Nombre de mots',
+  'config.longueurMin': 'Longueur min des mots',
+  'config.longueurMax': 'Longueur max des mots',
+  'config.range': 'Entre {min} et {max}',
+  'config.directions': 'Directions des mots',
+  'config.direction.H': 'Horizontale →',
+  'config.direction.V': 'Verticale ↓',
+  'config.direction.D2': 'Diagonale descendante ↘',
+  'config.direction.D1': 'Diagonale montante ↗',
+  'config.envers': 'Mots à l\'envers',
+  'config.enversHelp': 'Les mots peuvent aussi se lire de droite à gauche ou de bas en haut',
+  'config.langue': 'Langue des mots',
+  'config.mystery': 'Mot mystère',
+  'config.mysteryHelp': 'Les lettres restantes, une fois tous les mots barrés, forment un mot à deviner ; la grille est remplie de mots',
+  'config.mysteryWord': 'Mot mystère choisi',
+  'config.mysteryWordPlaceholder': 'Tiré au hasard si vide',
+  'config.marathon': 'Mode marathon',
+  'config.marathonHelp': 'Les grilles s\'enchaînent jusqu\'à l\'abandon ; la suivante est préparée pendant la partie',
+  'config.marathonProgressive': 'Difficulté progressive (plus de mots, grille plus grande)',
+  'config.offline': 'Générer la grille hors ligne',
+  'config.offlineHelp': 'Utilise les listes de mots intégrées sans contacter le serveur',
+  'config.cancel': 'Annuler',
+  'config.confirm': 'Générer la grille',
+
+  'config.error.gridTooSmall': 'La grille ({rows}x{cols}) est trop petite pour {nombre} mots de {longueurMin} lettres minimum',
+  'config.error.noDirection': 'Choisissez au moins une direction pour placer les mots.',
+  'config.error.invalidForm': 'Veuillez corriger les erreurs dans le formulaire.',
+  'config.error.customEmpty': 'Saisissez au moins un mot de 2 lettres ou plus.',
+  'config.error.customTooMany': 'La liste ne peut pas dépasser {max} mots.',
+  'config.error.customTooLong': 'Trop long pour une grille {rows}x{cols} : {words}',
+  'config.error.customGridTooSmall': 'La grille ({rows}x{cols}) est trop petite pour {letters} lettres au total',
+  'config.error.mysteryGridTooLarge': 'Une grille à mot mystère mesure au plus {max}x{max}.',
+  'config.error.mysteryTooShort': 'Le mot mystère doit compter au moins 2 lettres.',
+  'config.error.mysteryTooLong': 'Le mot mystère est trop long pour une grille {rows}x{cols}.',
+  'config.error.minMaxMismatch': 'Doit être supérieure ou égale à la longueur min.',
+  'config.error.maxMinMismatch': 'Doit être inférieure ou égale à la longueur max.',
+  'config.error.required': 'Ce champ est requis.',
+  'config.error.min': 'Valeur minimale: {min}.',
+  'config.error.max': 'Valeur maximale: {max}.',
+  'config.error.invalid': 'Valeur invalide.',
+
+  'stats.title': 'Statistiques',
+  'stats.back': '← Retour au jeu',
+  'stats.gamesPlayed': 'Parties jouées',
+  'stats.gamesCompleted': 'Terminées',
+  'stats.gamesAbandoned': 'Abandonnées',
+  'stats.totalTime': 'Temps de jeu total',
+  'stats.wordsFound': 'Mots trouvés',
+  'stats.averageTimePerWord': 'Temps moyen par mot',
+  'stats.dayStreak': 'Jours d\'affilée (record)',
+  'stats.winStreak': 'Grilles terminées d\'affilée (record)',
+  'stats.bestTimes': 'Meilleurs temps',
+  'stats.noBestTime': 'Aucune grille terminée pour l\'instant.',
+  'stats.history': 'Historique',
+  'stats.exportJson': 'Exporter JSON',
+  'stats.exportCsv': 'Exporter CSV',
+  'stats.clear': 'Effacer',
+  'stats.clearConfirm': 'Effacer définitivement tout l\'historique des parties ?',
+  'stats.col.grid': 'Grille',
+  'stats.col.time': 'Temps',
+  'stats.col.date': 'Date',
+  'stats.col.words': 'Mots',
+  'stats.col.hints': 'Indices',
+  'stats.col.score': 'Score',
+  'stats.col.status': 'Statut',
+  'stats.col.replay': 'Revoir',
+  'stats.outcome.terminee': 'Terminée',
+  'stats.outcome.abandonnee': 'Abandonnée',
+  'stats.empty': 'Aucune partie enregistrée. Terminez ou abandonnez une grille pour voir vos statistiques.',
+  'stats.dateFormat': 'dd/MM/yyyy HH:mm',
+
+  'mystery.pending': '🔍 Les {count} lettres restantes formeront le mot mystère.',
+  'mystery.prompt': '🔍 Mot mystère ({count} lettres) : lisez les lettres restantes',
+  'mystery.submit': 'Valider',
+  'mystery.wrong': '« {guess} » n\'est pas le mot mystère.',
+  'mystery.solved': '🔍 Mot mystère trouvé : {word}',
+  'mystery.revealed': '🔍 Le mot mystère était : {word}',
+
+  'marathon.title': 'Marathon',
+  'marathon.grid': 'Grille n° {number}',
+  'marathon.cleared': 'Grilles terminées : {count}',
+  'marathon.totalTime': 'Temps cumulé',
+  'marathon.progressive': 'Difficulté progressive',
+  'marathon.next': 'Grille suivante…',
+  'marathon.stop': 'Arrêter',
+
+  'replay.title': 'Rediffusion',
+  'replay.back': '← Retour aux statistiques',
+  'replay.watch': 'Revoir la partie',
+  'replay.grid': 'Grille {rows}x{cols} · {langue}',
+  'replay.play': '▶ Lecture',
+  'replay.pause': '⏸ Pause',
+  'replay.speed': 'Vitesse de lecture',
+  'replay.position': 'Position dans la partie',
+  'replay.timeline': 'Chronologie des sélections',
+  'replay.accepted': '✓ Mot trouvé : {word}',
+  'replay.rejected': '✗ Sélection refusée : {word}',
+  'replay.progress': '{found} / {total} mots trouvés',
+  'replay.finds': 'Mots trouvés',
+  'replay.noFinds': 'Aucun mot trouvé pendant cette partie.',
+  'replay.notFound': 'Rediffusion introuvable : seules les {count} dernières parties sont conservées.'
+};
+
+export type TranslationKey = keyof typeof FR;
@@ -0,0 +1,122 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpClient, HttpInterceptorFn, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { defer } from 'rxjs';
+import { API_CONFIG, ApiConfig, apiInterceptor } from './api.interceptor';
+import { MOCK_BACKEND, MockScenario, mockBackendInterceptor } from '../mock-backend/mock-backend.interceptor';
+import { ApiError } from '../services/api-error';
+
+describe('apiInterceptor', () => {
+  const config: ApiConfig = { baseUrl: '/api', timeoutMs: 1000, maxRetries: 2, retryDelayMs: 100 };
+  const latencyMs = 50;
+
+  let http: HttpClient;
+  let attempts: number;
+
+  // Compte les requêtes qui atteignent le backend simulé : une nouvelle tentative se réabonne
+  const countAttempts: HttpInterceptorFn = (req, next) => defer(() => {
+    attempts++;
+    return next(req);
+  });
+
+  function setup(scenario: MockScenario): void {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([apiInterceptor, countAttempts, mockBackendInterceptor])),
+        { provide: API_CONFIG, useValue: config },
+        { provide: MOCK_BACKEND, useValue: { scenario, latencyMs } }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    attempts = 0;
+  }
+
+  // Demande la liste des langues ; le résultat se remplit au fil du temps simulé (tick)
+  function request(method: 'GET' | 'POST' = 'GET'): { body?: unknown; error?: unknown } {
+    const result: { body?: unknown; error?: unknown } = {};
+    http.request(method, '/api/langues').subscribe({
+      next: body => result.body = body,
+      error: err => result.error = err
+    });
+    return result;
+  }
+
+  it('laisse passer une réponse du backend', fakeAsync(() => {
+    setup('succes');
+
+    const result = request();
+    tick(latencyMs);
+    expect(result.body).toEqual(['fr', 'en']);
+    expect(attempts).toBe(1);
+  }));
+
+  it('réessaie une erreur passagère avec un délai doublé à chaque tentative', fakeAsync(() => {
+    setup('hors-ligne');
+
+    // Premier échec après 50 ms, nouvelles tentatives 100 ms puis 200 ms après chaque échec
+    const result = request();
+    tick(latencyMs + config.retryDelayMs - 1);
+    expect(attempts).toBe(1);
+    tick(1);
+    expect(attempts).toBe(2);
+    tick(latencyMs + 2 * config.retryDelayMs - 1);
+    expect(attempts).toBe(2);
+    tick(1);
+    expect(attempts).toBe(3);
+    expect(result.error).toBeUndefined();
+    tick(latencyMs);
+    expect(result.error).toEqual(jasmine.any(ApiError));
+  }));
+
+  it('convertit l\'échec final en ApiError', fakeAsync(() => {
+    setup('hors-ligne');
+
+    const result = request();
+    tick(3 * latencyMs + 3 * config.retryDelayMs);
+    expect(attempts).toBe(config.maxRetries + 1);
+    expect(result.error).toEqual(jasmine.any(ApiError));
+    expect((result.error as ApiError).kind).toBe('hors-ligne');
+    expect((result.error as ApiError).isUnavailable).toBeTrue();
+  }));
+
+  it('abandonne une requête trop longue, puis la réessaie', fakeAsync(() => {
+    setup('delai');
+
+    const result = request();
+    tick(config.timeoutMs);
+    expect(attempts).toBe(1);
+    expect(result.error).toBeUndefined();
+
+    tick(2 * config.timeoutMs + 3 * config.retryDelayMs);
+    expect(attempts).toBe(config.maxRetries + 1);
+    expect((result.error as ApiError).kind).toBe('delai');
+  }));
+
+  it('ne réessaie pas une erreur serveur', fakeAsync(() => {
+    setup('erreur-serveur');
+
+    const result = request();
+    tick(latencyMs);
+    expect(attempts).toBe(1);
+    expect((result.error as ApiError).kind).toBe('serveur');
+    expect((result.error as ApiError).status).toBe(500);
+  }));
+
+  it('reprend les paramètres refusés d\'une erreur de validation', fakeAsync(() => {
+    setup('validation');
+
+    const result = request();
+    tick(latencyMs);
+    expect(attempts).toBe(1);
+    expect((result.error as ApiError).kind).toBe('requete');
+    expect((result.error as ApiError).fields).toEqual(['rows']);
+  }));
+
+  it('ne rejoue pas une requête qui n\'est pas un GET', fakeAsync(() => {
+    setup('hors-ligne');
+
+    const result = request('POST');
+    tick(latencyMs);
+    expect(attempts).toBe(1);
+    expect((result.error as ApiError).kind).toBe('hors-ligne');
+  }));
+});
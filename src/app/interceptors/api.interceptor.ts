@@ -0,0 +1,55 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { InjectionToken, inject } from '@angular/core';
+import { catchError, retry, throwError, timeout, timer, TimeoutError } from 'rxjs';
+import { toApiError } from '../services/api-error';
+
+export interface ApiConfig {
+  baseUrl: string;
+  timeoutMs: number;
+  maxRetries: number;
+  retryDelayMs: number; // Délai avant la première nouvelle tentative, doublé ensuite
+}
+
+export const API_CONFIG = new InjectionToken<ApiConfig>('API_CONFIG', {
+  providedIn: 'root',
+  factory: () => ({
+    baseUrl: '/api',
+    timeoutMs: 15000,
+    maxRetries: 2,
+    retryDelayMs: 500
+  })
+});
+
+// Erreurs passagères : la même requête a des chances d'aboutir un peu plus tard
+const RETRYABLE_STATUSES = [0, 408, 429, 502, 503, 504];
+
+function isRetryable(err: unknown): boolean {
+  return err instanceof TimeoutError ||
+    (err instanceof HttpErrorResponse && RETRYABLE_STATUSES.includes(err.status));
+}
+
+/**
+ * Appels au backend : délai maximal, nouvelles tentatives espacées pour les erreurs
+ * passagères des requêtes GET, puis conversion de toute erreur en ApiError.
+ */
+export const apiInterceptor: HttpInterceptorFn = (req, next) => {
+  const config = inject(API_CONFIG);
+  if (!req.url.startsWith(config.baseUrl)) {
+    return next(req);
+  }
+
+  // Seules les requêtes sans effet de bord peuvent être rejouées sans risque
+  const maxRetries = req.method === 'GET' ? config.maxRetries : 0;
+
+  return next(req).pipe(
+    // `each` et non `first` : l'événement d'envoi arrive immédiatement, la réponse bien après
+    timeout({ each: config.timeoutMs }),
+    retry({
+      count: maxRetries,
+      delay: (err, attempt) => isRetryable(err)
+        ? timer(config.retryDelayMs * 2 ** (attempt - 1))
+        : throwError(() => err)
+    }),
+    catchError(err => throwError(() => toApiError(err)))
+  );
+};
@@ -0,0 +1,21 @@
+import { Component } from '@angular/core';
+import { I18nService, UI_LANGUAGES, UiLanguage } from '../services/i18n.service';
+import { TranslatePipe } from '../pipes/translate.pipe';
+
+// Choix de la langue de l'interface, affiché en pied de page sur toutes les pages
+@Component({
+  selector: 'app-language-switch',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './language-switch.component.html',
+  styleUrl: './language-switch.component.scss'
+})
+export class LanguageSwitchComponent {
+  readonly languages = UI_LANGUAGES;
+
+  constructor(public readonly i18n: I18nService) {}
+
+  onChange(language: string): void {
+    this.i18n.setLanguage(language as UiLanguage);
+  }
+}
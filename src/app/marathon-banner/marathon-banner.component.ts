@@ -0,0 +1,30 @@
+import { ChangeDetectionStrategy, Component, computed } from '@angular/core';
+import { AsyncPipe } from '@angular/common';
+import { MarathonService } from '../services/marathon.service';
+import { GameStore } from '../services/game-store';
+import { GameClockService } from '../services/game-clock.service';
+import { DurationPipe } from '../pipes/duration.pipe';
+import { TranslatePipe } from '../pipes/translate.pipe';
+
+/**
+ * Bandeau du marathon en cours : numéro de la grille, grilles terminées et temps cumulé
+ * (grilles terminées, plus la grille en cours tant qu'elle n'est pas finie).
+ */
+@Component({
+  selector: 'app-marathon-banner',
+  standalone: true,
+  imports: [AsyncPipe, DurationPipe, TranslatePipe],
+  templateUrl: './marathon-banner.component.html',
+  styleUrl: './marathon-banner.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class MarathonBannerComponent {
+  // Temps de la grille en cours à ajouter au cumul : déjà compté une fois la grille finie
+  readonly countsCurrentGrid = computed(() => !this.marathon.isGridCleared() && !this.store.isGameOver());
+
+  constructor(
+    public readonly marathon: MarathonService,
+    private readonly store: GameStore,
+    public readonly clock: GameClockService
+  ) {}
+}
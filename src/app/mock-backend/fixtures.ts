@@ -0,0 +1,84 @@
+import { GridResponse } from '../services/game.service';
+
+// Grille de référence renvoyée telle quelle quand la demande correspond exactement
+export interface GridFixture {
+  langue: string;
+  nombre: number;
+  response: GridResponse;
+}
+
+// Les lignes sont écrites comme des chaînes pour rester lisibles
+function letters(rows: string[]): string[][] {
+  return rows.map(row => [...row]);
+}
+
+export const GRID_FIXTURES: GridFixture[] = [
+  // Partie par défaut au premier lancement : 12x12, 5 mots en français
+  {
+    langue: 'fr',
+    nombre: 5,
+    response: {
+      grille: letters([
+        'MAQAROUEQPQP',
+        'IQJYGDCWBTIU',
+        'YRKOTDUAMCEW',
+        'OGMJCWXAMTXG',
+        'GNJVOFSFVIBI',
+        'AKAIJEDNVUOA',
+        'TGGWCKBGWMPN',
+        'ESQFRFUARDGJ',
+        'AMBGIXADLZVA',
+        'UHXQSEHDAAJP',
+        'GUITAREYCHIQ',
+        'XLIIOKQETGLD'
+      ]),
+      solution: [
+        { mot: 'GUITARE', start: [10, 0], direction: [0, 1] },
+        { mot: 'ROUE', start: [0, 4], direction: [0, 1] },
+        { mot: 'BALAI', start: [6, 6], direction: [1, 1] },
+        { mot: 'GATEAU', start: [4, 0], direction: [1, 0] },
+        { mot: 'CAMION', start: [1, 6], direction: [1, 1] }
+      ]
+    }
+  },
+  {
+    langue: 'en',
+    nombre: 6,
+    response: {
+      grille: letters([
+        'NFORESTTBJ',
+        'HOUICAKEZD',
+        'NLGARDENCG',
+        'PRWTILVAKU',
+        'UVXOSPOJCE',
+        'OJSMNESTYF',
+        'WZEZGVADQS',
+        'JSAVDMIYGA',
+        'BALPHABETV',
+        'JBPDZEDNPG'
+      ]),
+      solution: [
+        { mot: 'SEA', start: [5, 2], direction: [1, 0] },
+        { mot: 'FOREST', start: [0, 1], direction: [0, 1] },
+        { mot: 'GARDEN', start: [2, 2], direction: [0, 1] },
+        { mot: 'CAKE', start: [1, 4], direction: [0, 1] },
+        { mot: 'NEST', start: [5, 4], direction: [0, 1] },
+        { mot: 'ALPHABET', start: [8, 1], direction: [0, 1] }
+      ]
+    }
+  }
+];
+
+// Réponse incohérente (le mot ne correspond pas aux lettres de la grille), refusée par la vérification
+export const INVALID_GRID_FIXTURE: GridResponse = {
+  grille: letters([
+    'CHIEN',
+    'ABCDE',
+    'FGHIJ',
+    'KLMNO',
+    'PQRST'
+  ]),
+  solution: [
+    { mot: 'CHAT', start: [0, 0], direction: [0, 1] }
+  ]
+};
@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { MOCK_BACKEND, mockBackendInterceptor } from './mock-backend.interceptor';
+import { GRID_FIXTURES } from './fixtures';
+import { apiInterceptor } from '../interceptors/api.interceptor';
+import { ALL_DIRECTIONS, DirectionsEnum } from '../services/game.service';
+import { GridApiService, GridRequest } from '../services/grid-api.service';
+import { validateGridResponse } from '../services/grid-validator';
+
+describe('mockBackendInterceptor', () => {
+  let api: GridApiService;
+
+  // Demande correspondant à la grille de référence de la partie par défaut
+  const request: GridRequest = {
+    nombre: 5, langue: 'fr', rows: 12, cols: 12, longueurMin: 3, longueurMax: 10, directions: ALL_DIRECTIONS, envers: false
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([apiInterceptor, mockBackendInterceptor])),
+        { provide: MOCK_BACKEND, useValue: { scenario: 'succes', latencyMs: 0 } }
+      ]
+    });
+    api = TestBed.inject(GridApiService);
+  });
+
+  it('renvoie la grille de référence correspondant à la demande', async () => {
+    const response = await firstValueFrom(api.getGrid(request));
+
+    expect(response).toEqual(GRID_FIXTURES[0].response);
+  });
+
+  it('génère une grille quand la grille de référence utilise une direction non demandée', async () => {
+    const response = await firstValueFrom(api.getGrid({ ...request, directions: [DirectionsEnum.V] }));
+
+    expect(response).not.toEqual(GRID_FIXTURES[0].response);
+    expect(() => validateGridResponse(response)).not.toThrow();
+    expect(response.solution.every(sol => sol.direction[0] === 1 && sol.direction[1] === 0)).toBeTrue();
+  });
+
+  it('génère une grille quand les mots de la grille de référence sont hors des longueurs demandées', async () => {
+    const response = await firstValueFrom(api.getGrid({ ...request, longueurMin: 7 }));
+
+    expect(response).not.toEqual(GRID_FIXTURES[0].response);
+    expect(response.solution.every(sol => sol.mot.length >= 7 && sol.mot.length <= 10)).toBeTrue();
+  });
+
+  it('donne toujours la même grille générée pour la même demande', async () => {
+    const other = { ...request, nombre: 4 };
+
+    expect(await firstValueFrom(api.getGrid(other))).toEqual(await firstValueFrom(api.getGrid(other)));
+  });
+});
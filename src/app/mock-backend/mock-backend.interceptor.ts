@@ -0,0 +1,182 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpParams, HttpRequest, HttpResponse } from '@angular/common/http';
+import { InjectionToken, inject } from '@angular/core';
+import { NEVER, Observable, delay, filter, mergeMap, of, throwError, timer } from 'rxjs';
+import { API_CONFIG } from '../interceptors/api.interceptor';
+import { ALL_DIRECTIONS, DirectionsEnum, GridResponse, getDirectionVectors } from '../services/game.service';
+import { GridGenerationError, GridGeneratorService } from '../services/grid-generator.service';
+import { createSeededRandom } from '../services/seeded-random';
+import { WORD_LISTS } from '../data/word-lists';
+import { GRID_FIXTURES, INVALID_GRID_FIXTURE } from './fixtures';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+import { environment } from '../../environments/environment';
+
+/**
+ * Comportement simulé du backend :
+ * - succes : grilles de référence, ou générées localement pour toute autre demande ;
+ * - detail : erreur 400 avec un message `detail`, comme les refus du backend ;
+ * - validation : erreur 422 listant les paramètres refusés, comme FastAPI ;
+ * - erreur-serveur : erreur 500 ;
+ * - delai : aucune réponse, jusqu'au délai maximal de l'intercepteur API ;
+ * - hors-ligne : serveur injoignable (statut 0), d'où le repli sur le générateur local ;
+ * - grille-invalide : grille incohérente, refusée par la vérification des réponses.
+ */
+export type MockScenario =
+  'succes' | 'detail' | 'validation' | 'erreur-serveur' | 'delai' | 'hors-ligne' | 'grille-invalide';
+
+export const MOCK_SCENARIOS: MockScenario[] =
+  ['succes', 'detail', 'validation', 'erreur-serveur', 'delai', 'hors-ligne', 'grille-invalide'];
+
+export interface MockBackendConfig {
+  scenario: MockScenario;
+  latencyMs: number; // Temps de réponse simulé
+}
+
+/**
+ * Backend simulé, ou null pour appeler le vrai backend. Activé par l'environnement
+ * (`ng serve --configuration mock`) ; le scénario peut alors être changé dans l'adresse
+ * de la page, par exemple `?mock=erreur-serveur`.
+ */
+export const MOCK_BACKEND = new InjectionToken<MockBackendConfig | null>('MOCK_BACKEND', {
+  providedIn: 'root',
+  factory: () => environment.mockBackend
+    ? { scenario: scenarioFromUrl() ?? environment.mockBackend, latencyMs: 300 }
+    : null
+});
+
+function scenarioFromUrl(): MockScenario | null {
+  const scenario = new URLSearchParams(window.location.search).get('mock');
+  return MOCK_SCENARIOS.find(known => known === scenario) ?? null;
+}
+
+// Paramètres entiers de `/mots_mele`, tous obligatoires
+const GRID_INT_PARAMS = ['nombre', 'longueur_min', 'longueur_max', 'n_top', 'rows', 'cols'];
+
+/**
+ * Répond à la place du backend (`/mots_mele`, `/langues`, `/definition`) quand
+ * MOCK_BACKEND est fourni. À placer après apiInterceptor, pour que le délai maximal,
+ * les nouvelles tentatives et la conversion des erreurs s'appliquent aux réponses simulées.
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  const mock = inject(MOCK_BACKEND);
+  const { baseUrl } = inject(API_CONFIG);
+  if (!mock || !req.url.startsWith(baseUrl)) {
+    return next(req);
+  }
+
+  const path = req.url.slice(baseUrl.length);
+  const generator = inject(GridGeneratorService);
+
+  switch (mock.scenario) {
+    case 'hors-ligne':
+      return fail(req, mock, 0, null);
+    case 'delai':
+      return NEVER;
+    case 'erreur-serveur':
+      return fail(req, mock, 500, 'Internal Server Error');
+    case 'detail':
+      return fail(req, mock, 400, { detail: 'Erreur simulée par le backend local.' });
+    case 'validation':
+      return fail(req, mock, 422, {
+        detail: [{ loc: ['query', 'rows'], msg: 'Input should be less than or equal to 30', type: 'less_than_equal' }]
+      });
+  }
+
+  if (path === '/langues') {
+    return respond(req, mock, Object.keys(WORD_LISTS));
+  }
+
+  if (path === '/definition') {
+    // Les définitions viennent du dictionnaire embarqué, comme le ferait le backend
+    const langue = req.params.get('langue') ?? '';
+    const mot = req.params.get('mot') ?? '';
+    return next(new HttpRequest('GET', `dictionnaires/${langue}.json`)).pipe(
+      filter((event): event is HttpResponse<Record<string, unknown>> => event instanceof HttpResponse),
+      mergeMap(response => {
+        const entry = response.body?.[mot];
+        return entry ? respond(req, mock, entry) : fail(req, mock, 404, { detail: `Mot inconnu : ${mot}` });
+      })
+    );
+  }
+
+  if (path === '/mots_mele') {
+    if (mock.scenario === 'grille-invalide') {
+      return respond(req, mock, INVALID_GRID_FIXTURE);
+    }
+    return answerGrid(req, mock, generator);
+  }
+
+  return fail(req, mock, 404, { detail: 'Not Found' });
+};
+
+function answerGrid(req: HttpRequest<unknown>, mock: MockBackendConfig, generator: GridGeneratorService): Observable<HttpResponse<unknown>> {
+  const invalid = GRID_INT_PARAMS.filter(name => !/^\d+$/.test(req.params.get(name) ?? ''));
+  if (invalid.length > 0) {
+    return fail(req, mock, 422, {
+      detail: invalid.map(name => ({ loc: ['query', name], msg: 'Input should be a valid integer', type: 'int_parsing' }))
+    });
+  }
+
+  const param = (name: string) => Number(req.params.get(name));
+  const langue = req.params.get('langue') ?? 'fr';
+  const config: GameConfig = {
+    nombre: param('nombre'),
+    langue,
+    rows: param('rows'),
+    cols: param('cols'),
+    longueurMin: param('longueur_min'),
+    longueurMax: param('longueur_max'),
+    directions: parseDirections(req.params),
+    envers: req.params.get('envers') === 'true'
+  };
+
+  // Grille de référence si elle correspond à la demande, sinon grille générée
+  // de façon déterministe : la même demande donne toujours la même grille
+  const fixture = GRID_FIXTURES.find(f =>
+    f.langue === langue &&
+    f.nombre === config.nombre &&
+    f.response.grille.length === config.rows &&
+    f.response.grille[0].length === config.cols &&
+    fitsRequest(f.response, config)
+  );
+  if (fixture) {
+    return respond(req, mock, fixture.response);
+  }
+
+  let response: GridResponse;
+  try {
+    response = generator.generate(config, createSeededRandom(req.urlWithParams));
+  } catch (err) {
+    const detail = err instanceof GridGenerationError ? err.message : 'Génération impossible.';
+    return fail(req, mock, 400, { detail });
+  }
+  return respond(req, mock, response);
+}
+
+// Chaque mot de la grille respecte les longueurs et les directions demandées
+function fitsRequest(response: GridResponse, config: GameConfig): boolean {
+  const allowed = getDirectionVectors(config.directions, config.envers);
+  return response.solution.every(({ mot, direction: [dr, dc] }) =>
+    mot.length >= config.longueurMin &&
+    mot.length <= config.longueurMax &&
+    allowed.some(([ar, ac]) => ar === dr && ac === dc)
+  );
+}
+
+function parseDirections(params: HttpParams): DirectionsEnum[] {
+  const values = params.get('directions')?.split(',') ?? [];
+  const directions = ALL_DIRECTIONS.filter(direction => values.includes(direction));
+  return directions.length > 0 ? directions : ALL_DIRECTIONS;
+}
+
+function respond<T>(req: HttpRequest<unknown>, mock: MockBackendConfig, body: T): Observable<HttpResponse<T>> {
+  return of(new HttpResponse({ status: 200, statusText: 'OK', url: req.urlWithParams, body })).pipe(
+    delay(mock.latencyMs)
+  );
+}
+
+function fail(req: HttpRequest<unknown>, mock: MockBackendConfig, status: number, error: unknown): Observable<never> {
+  const statusText = status === 0 ? 'Unknown Error' : 'Mock Error';
+  return timer(mock.latencyMs).pipe(
+    mergeMap(() => throwError(() => new HttpErrorResponse({ status, statusText, url: req.urlWithParams, error })))
+  );
+}
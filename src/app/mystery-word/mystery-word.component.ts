@@ -0,0 +1,52 @@
+import { ChangeDetectionStrategy, Component, computed, effect, signal } from '@angular/core';
+import { GameService } from '../services/game.service';
+import { GameStore } from '../services/game-store';
+import { uncoveredCells } from '../services/grid-validator';
+import { TranslatePipe } from '../pipes/translate.pipe';
+
+/**
+ * Étape du mot mystère, dans la barre latérale d'une grille à mot mystère : nombre de lettres
+ * pendant la recherche des mots, saisie du mot une fois tous les mots trouvés, puis le mot
+ * en fin de partie (deviné ou dévoilé par l'abandon).
+ */
+@Component({
+  selector: 'app-mystery-word',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './mystery-word.component.html',
+  styleUrl: './mystery-word.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class MysteryWordComponent {
+  // Dernière proposition refusée, effacée à la saisie suivante
+  readonly wrongGuess = signal<string | null>(null);
+
+  // Lettres restantes une fois tous les mots barrés : la réponse, dans l'ordre de lecture
+  readonly letterCount = computed(() => {
+    const response = this.store.response();
+    return response ? uncoveredCells(response).length : 0;
+  });
+
+  constructor(
+    public readonly store: GameStore,
+    private readonly gameService: GameService
+  ) {
+    effect(() => {
+      this.store.gameId();
+      this.wrongGuess.set(null);
+    });
+  }
+
+  submit(event: Event, input: HTMLInputElement): void {
+    event.preventDefault();
+    const guess = input.value.trim();
+    if (!guess) return;
+
+    if (this.gameService.guessMysteryWord(guess)) {
+      this.wrongGuess.set(null);
+    } else {
+      this.wrongGuess.set(guess);
+      input.select();
+    }
+  }
+}
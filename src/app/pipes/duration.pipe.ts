@@ -0,0 +1,18 @@
+import { Pipe, PipeTransform } from '@angular/core';
+
+// Formate une durée en millisecondes au format mm:ss (h:mm:ss au-delà d'une heure)
+@Pipe({
+  name: 'duration',
+  standalone: true
+})
+export class DurationPipe implements PipeTransform {
+  transform(value: number | null | undefined): string {
+    const totalSeconds = Math.max(0, Math.floor((value ?? 0) / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${mmss}` : mmss;
+  }
+}
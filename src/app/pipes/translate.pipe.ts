@@ -0,0 +1,19 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { I18nService } from '../services/i18n.service';
+import { TranslationKey } from '../i18n/translations.fr';
+import { MessageParams } from '../i18n/format';
+
+// Traduit une clé dans la langue de l'interface ; impur pour suivre le changement de langue,
+// y compris dans les vues OnPush puisque la langue lue est un signal
+@Pipe({
+  name: 't',
+  standalone: true,
+  pure: false
+})
+export class TranslatePipe implements PipeTransform {
+  constructor(private readonly i18n: I18nService) {}
+
+  transform(key: TranslationKey, params?: MessageParams): string {
+    return this.i18n.translate(key, params);
+  }
+}
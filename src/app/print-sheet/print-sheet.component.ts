@@ -0,0 +1,44 @@
+import { Component, Input, OnChanges } from '@angular/core';
+import { GridResponse } from '../services/game.service';
+import { PuzzleSvgService } from '../services/puzzle-svg.service';
+
+/**
+ * Mise en page d'impression : invisible à l'écran, elle remplace le jeu
+ * lors de l'impression (grille et mots, puis corrigé sur une seconde page).
+ */
+@Component({
+  selector: 'app-print-sheet',
+  standalone: true,
+  templateUrl: './print-sheet.component.html',
+  styleUrl: './print-sheet.component.scss'
+})
+export class PrintSheetComponent implements OnChanges {
+  @Input() response: GridResponse | null = null;
+  @Input() title = 'Mêlimemots';
+  @Input() answerKey = false;
+  @Input() answerKeyLabel = 'Corrigé';
+
+  sheetUrl: string | null = null;
+  answerKeyUrl: string | null = null;
+
+  constructor(private readonly puzzleSvg: PuzzleSvgService) {}
+
+  ngOnChanges(): void {
+    if (!this.response) {
+      this.sheetUrl = null;
+      this.answerKeyUrl = null;
+      return;
+    }
+
+    this.sheetUrl = this.puzzleSvg.toDataUrl(
+      this.puzzleSvg.renderSheet(this.response, { title: this.title, answerKey: false })
+    );
+    this.answerKeyUrl = this.answerKey
+      ? this.puzzleSvg.toDataUrl(this.puzzleSvg.renderSheet(this.response, {
+        title: this.title,
+        answerKey: true,
+        answerKeyLabel: this.answerKeyLabel
+      }))
+      : null;
+  }
+}
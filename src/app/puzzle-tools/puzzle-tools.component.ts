@@ -0,0 +1,63 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { GridResponse, GameService } from '../services/game.service';
+import { PuzzleSvgService } from '../services/puzzle-svg.service';
+import { PuzzleFileService } from '../services/puzzle-file.service';
+import { I18nService } from '../services/i18n.service';
+import { TranslatePipe } from '../pipes/translate.pipe';
+import { downloadFile } from '../utils/download';
+
+/**
+ * Outils de la grille en cours : impression (avec ou sans corrigé),
+ * téléchargement en SVG et export au format fichier de grille.
+ */
+@Component({
+  selector: 'app-puzzle-tools',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './puzzle-tools.component.html',
+  styleUrl: './puzzle-tools.component.scss'
+})
+export class PuzzleToolsComponent {
+  @Input() response: GridResponse | null = null;
+  @Input() title = 'Mêlimemots';
+  @Input() answerKey = false;
+  @Output() answerKeyChange = new EventEmitter<boolean>();
+  @Output() print = new EventEmitter<void>();
+
+  author = '';
+
+  constructor(
+    private readonly gameService: GameService,
+    private readonly puzzleSvg: PuzzleSvgService,
+    private readonly puzzleFile: PuzzleFileService,
+    private readonly i18n: I18nService
+  ) {}
+
+  downloadSvg(answerKey: boolean): void {
+    if (!this.response) return;
+
+    const svg = this.puzzleSvg.renderSheet(this.response, {
+      title: this.title,
+      answerKey,
+      answerKeyLabel: this.i18n.translate('game.answerKey')
+    });
+    downloadFile(svg, answerKey ? 'melimemots-corrige.svg' : 'melimemots-grille.svg', 'image/svg+xml');
+  }
+
+  exportFile(): void {
+    const file = this.gameService.exportPuzzleFile(this.title, this.author.trim() || undefined);
+    if (!file) return;
+
+    downloadFile(this.puzzleFile.serialize(file), `${this.slugify(this.title)}.json`, 'application/json');
+  }
+
+  private slugify(title: string): string {
+    const slug = title
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    return slug || 'melimemots-grille';
+  }
+}
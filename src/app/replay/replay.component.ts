@@ -0,0 +1,152 @@
+import { ChangeDetectionStrategy, Component, OnDestroy, OnInit, computed, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { Subscription, interval } from 'rxjs';
+import { GameReplay, SelectionAttempt, attemptLetters, attemptsPlayedAt, buildReplayGrid } from '../services/replay';
+import { MAX_REPLAYS, ReplayService } from '../services/replay.service';
+import { GridCellComponent } from '../grid-cell/grid-cell.component';
+import { WORD_COLORS, WordStroke } from '../word-search/word-search.component';
+import { DurationPipe } from '../pipes/duration.pipe';
+import { TranslatePipe } from '../pipes/translate.pipe';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+
+// Pas de la lecture, et durée d'affichage d'une sélection après son horodatage
+const TICK_MS = 100;
+const ATTEMPT_DISPLAY_MS = 800;
+
+// Tentative placée sur la chronologie
+export interface TimelineMark {
+  attempt: SelectionAttempt;
+  letters: string;
+  offset: number; // Position sur la chronologie, en pourcentage de la durée
+}
+
+/**
+ * Rediffusion d'une partie finie : les sélections enregistrées sont rejouées sur la grille,
+ * avec lecture et pause, vitesse, curseur de position et chronologie des mots trouvés.
+ */
+@Component({
+  selector: 'app-replay',
+  standalone: true,
+  imports: [RouterLink, DatePipe, DurationPipe, TranslatePipe, GridCellComponent],
+  templateUrl: './replay.component.html',
+  styleUrl: './replay.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ReplayComponent implements OnInit, OnDestroy {
+  readonly speeds = REPLAY_SPEEDS;
+  readonly maxReplays = MAX_REPLAYS;
+
+  replay = signal<GameReplay | null>(null);
+  position = signal(0); // Temps de jeu affiché, en millisecondes
+  isPlaying = signal(false);
+  speed = signal(1);
+
+  // Tentatives déjà jouées, et celle affichée comme sélection en cours
+  readonly played = computed(() => attemptsPlayedAt(this.replay()?.attempts ?? [], this.position()));
+  readonly currentAttempt = computed(() => {
+    const attempt = this.replay()?.attempts[this.played() - 1];
+    return attempt && this.position() - attempt.elapsed < ATTEMPT_DISPLAY_MS ? attempt : null;
+  });
+
+  // Recalculée seulement quand une tentative commence ou cesse d'être affichée
+  readonly grid = computed(() => {
+    const replay = this.replay();
+    return replay ? buildReplayGrid(replay, this.played(), this.currentAttempt()) : [];
+  });
+
+  readonly timeline = computed<TimelineMark[]>(() => {
+    const replay = this.replay();
+    if (!replay) return [];
+    const duration = Math.max(replay.duration, 1);
+    return replay.attempts.map(attempt => ({
+      attempt,
+      letters: attemptLetters(replay, attempt),
+      offset: Math.min(100, (attempt.elapsed / duration) * 100)
+    }));
+  });
+
+  // Tentative affichée, avec ses lettres
+  readonly currentMark = computed(() => this.currentAttempt() ? this.timeline()[this.played() - 1] : null);
+
+  readonly finds = computed(() => this.timeline().filter(mark => mark.attempt.accepted));
+
+  readonly foundWords = computed(() => new Set(
+    this.replay()?.attempts.slice(0, this.played()).flatMap(attempt => attempt.word ? [attempt.word] : [])
+  ));
+
+  readonly words = computed(() => this.replay()?.response.solution.map(sol => sol.mot.toUpperCase()) ?? []);
+
+  readonly strokes = computed<WordStroke[]>(() => {
+    const words = this.words();
+    return this.finds()
+      .filter(mark => this.foundWords().has(mark.attempt.word ?? ''))
+      .map(({ attempt }) => ({
+        word: attempt.word ?? '',
+        x1: attempt.start[1] + 0.5,
+        y1: attempt.start[0] + 0.5,
+        x2: attempt.end[1] + 0.5,
+        y2: attempt.end[0] + 0.5,
+        color: WORD_COLORS[Math.max(words.indexOf(attempt.word ?? ''), 0) % WORD_COLORS.length],
+        revealed: false
+      }));
+  });
+
+  private ticker?: Subscription;
+
+  constructor(
+    private readonly route: ActivatedRoute,
+    private readonly replays: ReplayService
+  ) {}
+
+  ngOnInit(): void {
+    this.replay.set(this.replays.get(this.route.snapshot.paramMap.get('id') ?? ''));
+  }
+
+  ngOnDestroy(): void {
+    this.pause();
+  }
+
+  togglePlay(): void {
+    if (this.isPlaying()) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  play(): void {
+    const replay = this.replay();
+    if (!replay) return;
+    // Lecture terminée : on repart du début
+    if (this.position() >= replay.duration) {
+      this.position.set(0);
+    }
+
+    this.isPlaying.set(true);
+    this.ticker = interval(TICK_MS).subscribe(() => {
+      const next = this.position() + TICK_MS * this.speed();
+      this.position.set(Math.min(next, replay.duration));
+      if (next >= replay.duration) this.pause();
+    });
+  }
+
+  pause(): void {
+    this.ticker?.unsubscribe();
+    this.ticker = undefined;
+    this.isPlaying.set(false);
+  }
+
+  seek(elapsed: number): void {
+    this.position.set(Math.max(0, Math.min(elapsed, this.replay()?.duration ?? 0)));
+  }
+
+  onScrub(event: Event): void {
+    this.seek(Number((event.target as HTMLInputElement).value));
+  }
+
+  setSpeed(speed: number): void {
+    this.speed.set(speed);
+  }
+}
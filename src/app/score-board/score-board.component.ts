@@ -0,0 +1,27 @@
+import { Component, Input } from '@angular/core';
+import { ScoreBreakdown } from '../services/score';
+import { TranslatePipe } from '../pipes/translate.pipe';
+
+/**
+ * Score de la partie : total et postes (mots, rapidité, enchaînements, pénalités)
+ * pendant le jeu, et détail mot par mot en fin de partie.
+ */
+@Component({
+  selector: 'app-score-board',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './score-board.component.html',
+  styleUrl: './score-board.component.scss'
+})
+export class ScoreBoardComponent {
+  @Input({ required: true }) score!: ScoreBreakdown;
+  @Input() detailed = false;
+  @Input() elapsed: number | null = null; // Temps de jeu courant, pour savoir si l'enchaînement tient encore
+
+  // Enchaînement affiché tant que le prochain mot peut encore le prolonger
+  get activeCombo(): number {
+    const { comboChain, comboDeadline } = this.score;
+    if (comboChain < 2 || comboDeadline === null || this.elapsed === null) return 0;
+    return this.elapsed <= comboDeadline ? comboChain : 0;
+  }
+}
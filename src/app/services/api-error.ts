@@ -0,0 +1,61 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { TimeoutError } from 'rxjs';
+import { FR } from '../i18n/translations.fr';
+import { formatMessage } from '../i18n/format';
+
+// Nature de l'échec, indépendante du code HTTP exact
+export type ApiErrorKind = 'hors-ligne' | 'delai' | 'serveur' | 'requete' | 'inconnue';
+
+/**
+ * Erreur d'appel au backend. Le message (en français, pour les journaux) reprend le
+ * `detail` renvoyé par le backend (FastAPI) quand il est présent ; l'interface le
+ * traduit à partir de `kind` et `fields` (voir I18nService.describeError).
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly kind: ApiErrorKind,
+    message: string,
+    public readonly status: number | null = null,
+    public readonly detail: unknown = null,
+    public readonly fields: string[] = [] // Paramètres refusés (erreur 422 de FastAPI)
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+
+  // Le backend ne répond pas : une grille générée localement peut le remplacer
+  get isUnavailable(): boolean {
+    return this.kind === 'hors-ligne' || this.kind === 'delai' || [502, 503, 504].includes(this.status ?? -1);
+  }
+}
+
+export function toApiError(err: unknown): ApiError {
+  if (err instanceof ApiError) return err;
+  if (err instanceof TimeoutError) return new ApiError('delai', FR['api.delai']);
+  if (!(err instanceof HttpErrorResponse)) return new ApiError('inconnue', FR['api.inconnue']);
+
+  const kind: ApiErrorKind =
+    err.status === 0 ? 'hors-ligne' :
+    err.status === 408 || err.status === 504 ? 'delai' :
+    err.status >= 500 ? 'serveur' :
+    err.status >= 400 ? 'requete' :
+    'inconnue';
+  const detail = err.error?.detail ?? null;
+  const fields = rejectedFields(detail);
+  const message =
+    typeof detail === 'string' && detail.trim() ? detail :
+    fields.length > 0 ? formatMessage(FR['api.fields'], { fields: fields.join(', ') }) :
+    FR[`api.${kind}`];
+
+  return new ApiError(kind, message, err.status, detail, fields);
+}
+
+// Le détail est soit un message, soit la liste des paramètres refusés (erreur 422 de FastAPI)
+function rejectedFields(detail: unknown): string[] {
+  if (!Array.isArray(detail)) return [];
+
+  const fields = detail
+    .map(item => Array.isArray(item?.loc) ? item.loc[item.loc.length - 1] : null)
+    .filter((field): field is string => typeof field === 'string');
+  return [...new Set(fields)];
+}
@@ -0,0 +1,59 @@
+import { DailyChallengeService, DailyResult } from './daily-challenge.service';
+
+describe('DailyChallengeService', () => {
+  const storageKey = 'melimemots.defis';
+  const result: DailyResult = { date: '2025-03-01', status: 'terminee', duration: 120_000, wordsFound: 8, wordsTotal: 8 };
+  let daily: DailyChallengeService;
+
+  function store(data: unknown): void {
+    localStorage.setItem(storageKey, JSON.stringify(data));
+  }
+
+  beforeEach(() => {
+    daily = new DailyChallengeService();
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(storageKey);
+  });
+
+  it('relit le résultat enregistré pour un jour', () => {
+    daily.recordResult(result);
+
+    expect(daily.getResult('2025-03-01')).toEqual(result);
+    expect(daily.getResult('2025-03-02')).toBeNull();
+  });
+
+  it('ne modifie plus un défi terminé', () => {
+    daily.recordResult(result);
+    daily.recordResult({ date: '2025-03-01', status: 'abandonnee' });
+
+    expect(daily.getResult('2025-03-01')).toEqual(result);
+  });
+
+  it('oublie les défis illisibles sans effacer les autres jours', () => {
+    store({
+      '2025-03-01': result,
+      '2025-03-02': null,
+      '2025-03-03': { date: '2025-03-03', status: 'gagne' },
+      '2025-03-04': { date: '2025-03-05', status: 'en-cours' },
+      '2025-03-06': { date: '2025-03-06', status: 'en-cours', duration: 'longtemps' }
+    });
+
+    expect(daily.getResult('2025-03-01')).toEqual(result);
+    expect(daily.getResult('2025-03-02')).toBeNull();
+    expect(daily.getResult('2025-03-03')).toBeNull();
+    expect(daily.getResult('2025-03-04')).toBeNull();
+    expect(daily.getResult('2025-03-06')).toEqual({ date: '2025-03-06', status: 'en-cours' });
+  });
+
+  it('ignore des défis enregistrés sous une autre forme', () => {
+    store([result]);
+
+    expect(daily.getResult('0')).toBeNull();
+
+    daily.markStarted('2025-03-07');
+
+    expect(daily.getResult('2025-03-07')).toEqual({ date: '2025-03-07', status: 'en-cours' });
+  });
+});
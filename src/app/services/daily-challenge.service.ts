@@ -0,0 +1,105 @@
+import { Injectable } from '@angular/core';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+import { GameOutcome } from './stats.service';
+
+export type DailyStatus = 'en-cours' | GameOutcome;
+
+export interface DailyResult {
+  date: string; // Jour du défi, au format AAAA-MM-JJ
+  status: DailyStatus;
+  duration?: number;
+  wordsFound?: number;
+  wordsTotal?: number;
+}
+
+// Configuration fixe : tout le monde joue la même grille le même jour
+export const DAILY_CONFIG: GameConfig = {
+  rows: 12,
+  cols: 12,
+  nombre: 8,
+  longueurMin: 4,
+  longueurMax: 10,
+  langue: 'fr'
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DailyChallengeService {
+  private readonly storageKey = 'melimemots.defis';
+
+  // Date du jour dans le fuseau local, pour que le défi change à minuit chez chacun
+  todayKey(): string {
+    const now = new Date();
+    const month = String(now.getMonth() + 1).padStart(2, '0');
+    const day = String(now.getDate()).padStart(2, '0');
+    return `${now.getFullYear()}-${month}-${day}`;
+  }
+
+  seedFor(date: string): string {
+    return `melimemots-defi-${date}`;
+  }
+
+  getResult(date: string): DailyResult | null {
+    return this.load()[date] ?? null;
+  }
+
+  markStarted(date: string): void {
+    this.save({ date, status: 'en-cours' });
+  }
+
+  recordResult(result: DailyResult): void {
+    // Un défi terminé ou abandonné ne peut plus être modifié
+    const existing = this.getResult(result.date);
+    if (existing && existing.status !== 'en-cours') return;
+    this.save(result);
+  }
+
+  private save(result: DailyResult): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify({ ...this.load(), [result.date]: result }));
+    } catch {
+      // Stockage indisponible : le défi ne sera pas marqué comme joué
+    }
+  }
+
+  private load(): Record<string, DailyResult> {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      const results: unknown = raw ? JSON.parse(raw) : {};
+      if (!isRecord(results)) return {};
+
+      // Un défi illisible est oublié, sans effacer les autres jours
+      const valid: Record<string, DailyResult> = {};
+      for (const [date, data] of Object.entries(results)) {
+        const result = toDailyResult(data);
+        if (result?.date === date) valid[date] = result;
+      }
+      return valid;
+    } catch {
+      return {};
+    }
+  }
+}
+
+// Résultat d'un défi relu depuis le stockage, ou null s'il est inexploitable
+function toDailyResult(data: unknown): DailyResult | null {
+  if (!isRecord(data)) return null;
+
+  const { date, status, duration, wordsFound, wordsTotal } = data;
+  if (typeof date !== 'string' || (status !== 'en-cours' && status !== 'terminee' && status !== 'abandonnee')) {
+    return null;
+  }
+
+  return {
+    date,
+    status,
+    ...(typeof duration === 'number' ? { duration } : {}),
+    ...(typeof wordsFound === 'number' ? { wordsFound } : {}),
+    ...(typeof wordsTotal === 'number' ? { wordsTotal } : {})
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,109 @@
+import { Inject, Injectable, InjectionToken, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, catchError, map, of, shareReplay, throwError } from 'rxjs';
+import { API_CONFIG, ApiConfig } from '../interceptors/api.interceptor';
+import { ApiError } from './api-error';
+import { normalizeWord } from './grid-generator.service';
+
+// Définition d'un mot, avec ses traductions indexées par code de langue
+export interface DictionaryEntry {
+  mot: string;
+  definition: string;
+  traductions: Record<string, string>;
+}
+
+// Contenu d'un fichier de dictionnaire embarqué, indexé par mot normalisé
+type DictionaryFile = Record<string, Omit<DictionaryEntry, 'mot'> & { mot?: string }>;
+
+// Source des définitions : le dictionnaire embarqué ou le backend
+export interface DictionaryProvider {
+  lookup(word: string, langue: string): Observable<DictionaryEntry | null>;
+}
+
+/**
+ * Fournisseur utilisé par DictionaryService. Le dictionnaire embarqué par défaut ;
+ * pour interroger le backend, fournir BackendDictionaryProvider dans app.config.
+ */
+export const DICTIONARY_PROVIDER = new InjectionToken<DictionaryProvider>('DICTIONARY_PROVIDER', {
+  providedIn: 'root',
+  factory: () => inject(OfflineDictionaryProvider)
+});
+
+/**
+ * Dictionnaire hors ligne : un fichier JSON par langue dans `public/dictionnaires/`,
+ * indexé par mot normalisé (majuscules sans accents), chargé une seule fois.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineDictionaryProvider implements DictionaryProvider {
+  private readonly files = new Map<string, Observable<DictionaryFile>>();
+
+  constructor(private readonly http: HttpClient) {}
+
+  lookup(word: string, langue: string): Observable<DictionaryEntry | null> {
+    const key = normalizeWord(word);
+    return this.load(langue).pipe(
+      map(entries => {
+        const entry = entries[key];
+        if (!entry) return null;
+        return { mot: entry.mot ?? word, definition: entry.definition, traductions: entry.traductions ?? {} };
+      })
+    );
+  }
+
+  private load(langue: string): Observable<DictionaryFile> {
+    let file = this.files.get(langue);
+    if (!file) {
+      file = this.http.get<DictionaryFile>(`dictionnaires/${langue}.json`).pipe(
+        // Langue sans dictionnaire : aucune définition, mais un nouvel essai au prochain mot
+        catchError(() => {
+          this.files.delete(langue);
+          return of({});
+        }),
+        shareReplay(1)
+      );
+      this.files.set(langue, file);
+    }
+    return file;
+  }
+}
+
+/**
+ * Définitions fournies par le backend (`GET /definition?mot=&langue=`), qui répond
+ * 404 pour un mot inconnu. Backend injoignable : repli sur le dictionnaire embarqué.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BackendDictionaryProvider implements DictionaryProvider {
+
+  constructor(
+    private readonly http: HttpClient,
+    private readonly offline: OfflineDictionaryProvider,
+    @Inject(API_CONFIG) private readonly config: ApiConfig
+  ) {}
+
+  lookup(word: string, langue: string): Observable<DictionaryEntry | null> {
+    const params = { mot: normalizeWord(word), langue };
+
+    return this.http.get<unknown>(`${this.config.baseUrl}/definition`, { params }).pipe(
+      map(data => {
+        const entry = data as DictionaryEntry;
+        if (typeof entry?.definition !== 'string' || entry.definition.trim() === '') {
+          throw new Error('Définition invalide');
+        }
+        return {
+          mot: typeof entry.mot === 'string' ? entry.mot : word,
+          definition: entry.definition,
+          traductions: entry.traductions && typeof entry.traductions === 'object' ? entry.traductions : {}
+        };
+      }),
+      catchError(err => {
+        if (err instanceof ApiError && err.status === 404) return of(null);
+        if (err instanceof ApiError && err.isUnavailable) return this.offline.lookup(word, langue);
+        return throwError(() => err);
+      })
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { Inject, Injectable } from '@angular/core';
+import { Observable, catchError, forkJoin, of, shareReplay } from 'rxjs';
+import { DICTIONARY_PROVIDER, DictionaryEntry, DictionaryProvider } from './dictionary-providers';
+import { normalizeWord } from './grid-generator.service';
+
+/**
+ * Définitions des mots de la grille, obtenues auprès du fournisseur configuré
+ * (DICTIONARY_PROVIDER) et gardées en mémoire pour la session.
+ * Un mot sans définition, ou une erreur du fournisseur, donne null.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DictionaryService {
+  private readonly cache = new Map<string, Observable<DictionaryEntry | null>>();
+
+  constructor(@Inject(DICTIONARY_PROVIDER) private readonly provider: DictionaryProvider) {}
+
+  lookup(word: string, langue: string): Observable<DictionaryEntry | null> {
+    const key = `${langue}:${normalizeWord(word)}`;
+    let entry = this.cache.get(key);
+    if (!entry) {
+      entry = this.provider.lookup(word, langue).pipe(
+        catchError(err => {
+          console.error(`Définition de ${word} indisponible:`, err);
+          this.cache.delete(key); // Erreur passagère : le mot sera redemandé
+          return of(null);
+        }),
+        shareReplay(1)
+      );
+      this.cache.set(key, entry);
+    }
+    return entry;
+  }
+
+  // Définitions de plusieurs mots, dans l'ordre de la liste
+  lookupAll(words: string[], langue: string): Observable<(DictionaryEntry | null)[]> {
+    return words.length > 0 ? forkJoin(words.map(word => this.lookup(word, langue))) : of([]);
+  }
+}
@@ -0,0 +1,94 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Subscription, fromEvent, interval } from 'rxjs';
+
+// Raisons de mise en pause : le chrono ne reprend que lorsqu'il n'en reste aucune
+export type ClockPauseReason = 'onglet' | 'dialogue' | 'page';
+
+type ClockStatus = 'idle' | 'running' | 'stopped';
+
+/**
+ * Chronomètre de la partie : démarre à la première sélection, se met en pause
+ * quand l'onglet est masqué ou qu'un dialogue est ouvert, et se fige à la fin.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GameClockService {
+  private status: ClockStatus = 'idle';
+  private accumulated = 0;
+  private runningSince: number | null = null;
+  private ticker?: Subscription;
+  private readonly pauseReasons = new Set<ClockPauseReason>();
+
+  private readonly elapsedSubject = new BehaviorSubject<number>(0);
+
+  // Temps écoulé en millisecondes, rafraîchi chaque seconde tant que le chrono tourne
+  public elapsed$ = this.elapsedSubject.asObservable();
+
+  constructor() {
+    fromEvent(document, 'visibilitychange').subscribe(() => {
+      if (document.hidden) {
+        this.pause('onglet');
+      } else {
+        this.resume('onglet');
+      }
+    });
+  }
+
+  get elapsed(): number {
+    const running = this.runningSince !== null ? Date.now() - this.runningSince : 0;
+    return this.accumulated + running;
+  }
+
+  get isStarted(): boolean {
+    return this.status !== 'idle';
+  }
+
+  // Remet le chrono à zéro, ou au temps déjà joué lors d'une reprise de partie
+  reset(elapsed: number = 0): void {
+    this.halt();
+    this.status = 'idle';
+    this.accumulated = elapsed;
+    this.elapsedSubject.next(this.elapsed);
+  }
+
+  start(): void {
+    if (this.status !== 'idle') return;
+    this.status = 'running';
+    this.run();
+  }
+
+  pause(reason: ClockPauseReason): void {
+    this.pauseReasons.add(reason);
+    this.halt();
+  }
+
+  resume(reason: ClockPauseReason): void {
+    this.pauseReasons.delete(reason);
+    this.run();
+  }
+
+  // Fige le chrono et renvoie la durée finale
+  stop(): number {
+    this.halt();
+    this.status = 'stopped';
+    return this.accumulated;
+  }
+
+  private run(): void {
+    if (this.status !== 'running' || this.runningSince !== null || this.pauseReasons.size > 0) return;
+
+    this.runningSince = Date.now();
+    this.ticker = interval(1000).subscribe(() => this.elapsedSubject.next(this.elapsed));
+  }
+
+  private halt(): void {
+    if (this.runningSince !== null) {
+      this.accumulated += Date.now() - this.runningSince;
+      this.runningSince = null;
+    }
+    this.ticker?.unsubscribe();
+    this.ticker = undefined;
+    this.elapsedSubject.next(this.accumulated);
+  }
+}
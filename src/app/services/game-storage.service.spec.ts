@@ -0,0 +1,73 @@
+import { GameStorageService, SAVE_SCHEMA_VERSION } from './game-storage.service';
+import { TEST_CONFIG, TEST_GRID } from '../testing/grid-fixtures';
+
+describe('GameStorageService', () => {
+  const storageKey = 'melimemots.partie-en-cours';
+  let storage: GameStorageService;
+
+  const config = TEST_CONFIG;
+  const response = TEST_GRID;
+
+  // Sauvegarde au format de la première version
+  const savedV1 = { version: 1, savedAt: 1000, config, response, foundWords: ['CHAT'], elapsed: 42000 };
+
+  function store(data: unknown): void {
+    localStorage.setItem(storageKey, JSON.stringify(data));
+  }
+
+  beforeEach(() => {
+    localStorage.removeItem(storageKey);
+    storage = new GameStorageService();
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(storageKey);
+  });
+
+  it('relit la partie enregistrée', () => {
+    storage.save({
+      config, response, foundWords: ['CHAT'], hints: { RAT: 2 }, finds: [{ word: 'CHAT', elapsed: 5000 }],
+      wrongSelections: 1, attempts: [], elapsed: 6000
+    });
+
+    const saved = storage.load();
+    expect(saved?.version).toBe(SAVE_SCHEMA_VERSION);
+    expect(saved?.response).toEqual(response);
+    expect(saved?.hints).toEqual({ RAT: 2 });
+    expect(saved?.finds).toEqual([{ word: 'CHAT', elapsed: 5000 }]);
+    expect(saved?.elapsed).toBe(6000);
+  });
+
+  it('migre une sauvegarde de la première version jusqu\'à la version courante', () => {
+    store(savedV1);
+
+    const saved = storage.load();
+    expect(saved).toEqual({
+      version: SAVE_SCHEMA_VERSION,
+      savedAt: 1000,
+      config,
+      response,
+      foundWords: ['CHAT'],
+      hints: {},
+      finds: [{ word: 'CHAT' }],
+      wrongSelections: 0,
+      attempts: [],
+      elapsed: 42000
+    });
+  });
+
+  it('efface une sauvegarde inexploitable', () => {
+    for (const data of [null, 'partie', { ...savedV1, version: 99 }, { ...savedV1, foundWords: 'CHAT' }, { ...savedV1, config: null }]) {
+      store(data);
+
+      expect(storage.load()).toBeNull();
+      expect(localStorage.getItem(storageKey)).toBeNull();
+    }
+  });
+
+  it('refuse des indices hors des niveaux connus', () => {
+    store({ ...savedV1, version: 2, hints: { CHAT: 7 } });
+
+    expect(storage.load()).toBeNull();
+  });
+});
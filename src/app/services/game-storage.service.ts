@@ -0,0 +1,146 @@
+import { Injectable } from '@angular/core';
+import { GridResponse, HintLevel, MAX_HINT_LEVEL } from './game.service';
+import { WordFind } from './score';
+import { SelectionAttempt } from './replay';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+
+// À incrémenter à chaque changement de format, avec une migration depuis la version précédente
+export const SAVE_SCHEMA_VERSION = 4;
+
+export interface SavedGame {
+  version: number;
+  savedAt: number;
+  config: GameConfig;
+  response: GridResponse;
+  foundWords: string[]; // Le Set de GameState n'est pas sérialisable en JSON
+  hints: Record<string, HintLevel>;
+  finds: WordFind[]; // Ordre et moment des découvertes, pour le score
+  wrongSelections: number;
+  attempts: SelectionAttempt[]; // Enregistrement des sélections, pour la rediffusion
+  elapsed: number; // Temps de jeu écoulé en millisecondes
+}
+
+type SaveData = Record<string, unknown>;
+
+// Migrations indexées par version source : chacune produit la version suivante
+const migrations: Record<number, (data: SaveData) => SaveData> = {
+  // v2 : ajout des indices par mot
+  1: data => ({ ...data, version: 2, hints: {} }),
+  // v3 : score (moments des découvertes inconnus, donc sans bonus de rapidité)
+  2: data => ({
+    ...data,
+    version: 3,
+    finds: isStringList(data['foundWords']) ? data['foundWords'].map(word => ({ word })) : [],
+    wrongSelections: 0
+  }),
+  // v4 : rediffusion (les sélections d'avant la mise à jour ne sont pas connues)
+  3: data => ({ ...data, version: 4, attempts: [] })
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class GameStorageService {
+  private readonly storageKey = 'melimemots.partie-en-cours';
+
+  save(game: Omit<SavedGame, 'version' | 'savedAt'>): void {
+    const saved: SavedGame = {
+      version: SAVE_SCHEMA_VERSION,
+      savedAt: Date.now(),
+      ...game
+    };
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(saved));
+    } catch {
+      // Stockage plein ou indisponible : la partie ne pourra simplement pas être reprise
+    }
+  }
+
+  load(): SavedGame | null {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (!raw) return null;
+
+      const saved = this.migrate(JSON.parse(raw));
+      if (!saved) {
+        this.clear();
+      }
+      return saved;
+    } catch {
+      this.clear();
+      return null;
+    }
+  }
+
+  clear(): void {
+    try {
+      localStorage.removeItem(this.storageKey);
+    } catch {
+      // Rien à nettoyer si le stockage est indisponible
+    }
+  }
+
+  // Amène une sauvegarde à la version courante, ou renvoie null si elle est inexploitable
+  private migrate(data: unknown): SavedGame | null {
+    if (!isRecord(data)) return null;
+    let current = data;
+
+    while (typeof current['version'] === 'number' && current['version'] < SAVE_SCHEMA_VERSION) {
+      const migration = migrations[current['version']];
+      if (!migration) return null;
+      current = migration(current);
+    }
+
+    const { version, savedAt, config, response, foundWords, hints, finds, wrongSelections, attempts, elapsed } = current;
+    if (version !== SAVE_SCHEMA_VERSION ||
+      typeof savedAt !== 'number' ||
+      !isGameConfig(config) ||
+      !isRecord(response) || !Array.isArray(response['grille']) || !Array.isArray(response['solution']) ||
+      !isStringList(foundWords) ||
+      !isHintMap(hints) ||
+      !Array.isArray(finds) ||
+      typeof wrongSelections !== 'number' ||
+      !Array.isArray(attempts) ||
+      typeof elapsed !== 'number') {
+      return null;
+    }
+
+    // La grille elle-même est vérifiée à la reprise (GameService.restoreGame)
+    return {
+      version,
+      savedAt,
+      config,
+      response: {
+        grille: response['grille'],
+        solution: response['solution'],
+        ...(typeof response['motMystere'] === 'string' ? { motMystere: response['motMystere'] } : {})
+      },
+      foundWords,
+      hints,
+      finds,
+      wrongSelections,
+      attempts,
+      elapsed
+    };
+  }
+}
+
+function isRecord(value: unknown): value is SaveData {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isHintMap(value: unknown): value is Record<string, HintLevel> {
+  return isRecord(value) && Object.values(value).every(level =>
+    typeof level === 'number' && Number.isInteger(level) && level >= 0 && level <= MAX_HINT_LEVEL);
+}
+
+function isGameConfig(value: unknown): value is GameConfig {
+  return isRecord(value) &&
+    typeof value['langue'] === 'string' &&
+    ['rows', 'cols', 'nombre', 'longueurMin', 'longueurMax'].every(key => typeof value[key] === 'number');
+}
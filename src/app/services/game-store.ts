@@ -0,0 +1,139 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { Cell, GameState } from './game.service';
+import { computeScore } from './score';
+
+// État d'avant la première partie, et après une remise à zéro
+export const EMPTY_GAME_STATE: GameState = {
+  gameId: 0,
+  response: null,
+  grid: [],
+  words: [],
+  foundWords: new Set(),
+  revealedWords: new Set(),
+  finds: [],
+  wrongSelections: 0,
+  attempts: [],
+  selectedCells: [],
+  isSelecting: false,
+  hints: {}
+};
+
+/**
+ * État de la partie, immuable : chaque modification produit un nouvel état, et seules les
+ * cellules modifiées (et leurs lignes) sont remplacées dans la grille. Les valeurs dérivées
+ * sont des signaux calculés, qui ne changent que si les champs dont elles dépendent changent :
+ * une sélection en cours ne recalcule ni le score ni la progression.
+ * Seul GameService modifie l'état ; les composants le lisent.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GameStore {
+  private readonly stateSignal = signal<GameState>(EMPTY_GAME_STATE);
+
+  readonly state = this.stateSignal.asReadonly();
+
+  readonly gameId = computed(() => this.state().gameId);
+  readonly response = computed(() => this.state().response);
+  readonly grid = computed(() => this.state().grid);
+  readonly words = computed(() => this.state().words);
+  readonly foundWords = computed(() => this.state().foundWords);
+  readonly revealedWords = computed(() => this.state().revealedWords);
+  readonly finds = computed(() => this.state().finds);
+  readonly wrongSelections = computed(() => this.state().wrongSelections);
+  readonly attempts = computed(() => this.state().attempts);
+  readonly recordId = computed(() => this.state().recordId);
+  readonly selectedCells = computed(() => this.state().selectedCells);
+  readonly isSelecting = computed(() => this.state().isSelecting);
+  readonly hints = computed(() => this.state().hints);
+  readonly config = computed(() => this.state().config);
+  readonly duration = computed(() => this.state().duration);
+  readonly abandoned = computed(() => !!this.state().abandoned);
+  readonly mysteryWord = computed(() => this.state().response?.motMystere ?? null);
+  readonly mysterySolved = computed(() => !!this.state().mysterySolved);
+
+  // Pourcentage de mots trouvés
+  readonly progress = computed(() => {
+    const total = this.words().length;
+    return total === 0 ? 0 : (this.foundWords().size / total) * 100;
+  });
+
+  readonly allWordsFound = computed(() => this.foundWords().size === this.words().length);
+
+  // Mots trouvés et, pour une grille à mot mystère, mot mystère deviné
+  readonly isComplete = computed(() => this.allWordsFound() && (!this.mysteryWord() || this.mysterySolved()));
+
+  // Tous les mots trouvés, reste à deviner le mot mystère
+  readonly awaitingMystery = computed(() => this.allWordsFound() && !this.isComplete() && !this.abandoned());
+
+  // Partie finie : tous les mots trouvés, ou partie abandonnée
+  readonly isGameOver = computed(() => this.isComplete() || this.abandoned());
+
+  // Nombre total de niveaux d'indice consommés pendant la partie
+  readonly hintsUsed = computed(() =>
+    Object.values(this.hints()).reduce<number>((sum, level) => sum + level, 0));
+
+  readonly selectedWord = computed(() => this.selectedCells().map(cell => cell.letter).join(''));
+
+  // Détail du score, recalculé seulement quand un mot, un indice ou une erreur s'ajoute
+  readonly score = computed(() => {
+    const grille = this.response()?.grille ?? [];
+    return computeScore({
+      rows: grille.length,
+      cols: grille[0]?.length ?? 0,
+      solution: this.response()?.solution ?? [],
+      finds: this.finds(),
+      hints: this.hints(),
+      wrongSelections: this.wrongSelections()
+    });
+  });
+
+  set(state: GameState): void {
+    this.stateSignal.set(state);
+  }
+
+  update(changes: Partial<GameState>): void {
+    this.stateSignal.update(state => ({ ...state, ...changes }));
+  }
+}
+
+/**
+ * Copie de la grille où les cellules désignées (par leurs coordonnées) reçoivent les
+ * modifications de `patch`. Les cellules inchangées, et les lignes qui n'en contiennent
+ * aucune modifiée, gardent leur identité : l'affichage ne met à jour que ce qui a changé.
+ */
+export function patchCells(
+  grid: Cell[][],
+  targets: Iterable<Pick<Cell, 'row' | 'col'>>,
+  patch: (cell: Cell) => Partial<Cell>
+): Cell[][] {
+  const rows = new Map<number, Cell[]>();
+
+  for (const { row, col } of targets) {
+    const copy = rows.get(row) ?? [...grid[row]];
+    const cell = copy[col];
+    const changes = patch(cell);
+    const keys = Object.keys(changes) as (keyof Cell)[];
+    if (keys.every(key => cell[key] === changes[key])) continue;
+
+    copy[col] = { ...cell, ...changes };
+    rows.set(row, copy);
+  }
+
+  return rows.size === 0 ? grid : grid.map((row, index) => rows.get(index) ?? row);
+}
+
+// Classes d'affichage d'une cellule ; le mot survolé met en évidence ses cellules
+export function cellClasses(cell: Cell, highlightedWord: string | null = null): string {
+  const classes = ['cell'];
+  const isFound = cell.foundBy.length > 0;
+  const isRevealed = !isFound && cell.revealedBy.length > 0;
+  if (isFound) classes.push('found');
+  if (isRevealed) classes.push('revealed');
+  if (cell.isSelected) classes.push('selected');
+  if (!isFound && !isRevealed && cell.hintLevel > 0) classes.push(`hint-${cell.hintLevel}`);
+  if (highlightedWord && (cell.foundBy.includes(highlightedWord) || cell.revealedBy.includes(highlightedWord))) {
+    classes.push('highlighted');
+  }
+  return classes.join(' ');
+}
@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import { Observable, of, throwError } from 'rxjs';
+import { DirectionsEnum, GameService, GridResponse } from './game.service';
+import { ApiError } from './api-error';
+import { GridApiService } from './grid-api.service';
+import { GridGeneratorService } from './grid-generator.service';
+import { GridValidationError } from './grid-validator';
+import { TEST_CONFIG, TEST_GRID } from '../testing/grid-fixtures';
+
+describe('GameService.fetchGrid', () => {
+  // Réponse du backend : deux mots horizontaux sur une grille 3x4
+  const backendResponse = TEST_GRID;
+  const localResponse: GridResponse = {
+    grille: [['R', 'Z', 'O'], ['A', 'O', 'U'], ['T', 'U', 'P'], ['E', 'P', 'S']],
+    solution: [{ mot: 'RAT', start: [0, 0], direction: [1, 0] }]
+  };
+  const config = TEST_CONFIG;
+
+  let service: GameService;
+  let backend$: Observable<GridResponse>;
+
+  beforeEach(() => {
+    backend$ = of(backendResponse);
+    TestBed.configureTestingModule({
+      providers: [{ provide: GridApiService, useValue: { getGrid: () => backend$, cancelPending: () => {} } }]
+    });
+    service = TestBed.inject(GameService);
+    spyOn(TestBed.inject(GridGeneratorService), 'generate').and.returnValue(localResponse);
+  });
+
+  function resultOf(grid$: Observable<GridResponse>): unknown {
+    let result: unknown;
+    grid$.subscribe({ next: response => result = response, error: err => result = err });
+    return result;
+  }
+
+  it('garde la grille du backend quand elle respecte la demande', () => {
+    expect(resultOf(service.fetchGrid(config))).toEqual(backendResponse);
+  });
+
+  it('génère la grille localement quand le backend ignore les directions demandées', () => {
+    expect(resultOf(service.fetchGrid({ ...config, directions: [DirectionsEnum.V] }))).toEqual(localResponse);
+  });
+
+  it('refuse une grille du backend qui ne correspond pas à la demande', () => {
+    const result = resultOf(service.fetchGrid({ ...config, nombre: 3 }));
+
+    expect(result).toEqual(jasmine.any(GridValidationError));
+    expect((result as GridValidationError).check).toBe('nombre');
+  });
+
+  it('signale la grille générée sur l\'appareil tant que le backend est injoignable', () => {
+    const offline = new ApiError('hors-ligne', 'Serveur injoignable', 0);
+    backend$ = throwError(() => offline);
+    service.loadGame(2, 'fr', 3, 4, 3, 4, [DirectionsEnum.H]).subscribe();
+
+    expect(service.localFallback()).toBe(offline);
+
+    backend$ = of(backendResponse);
+    service.loadGame(2, 'fr', 3, 4, 3, 4, [DirectionsEnum.H]).subscribe();
+
+    expect(service.localFallback()).toBeNull();
+  });
+});
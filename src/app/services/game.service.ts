@@ -1,14 +1,34 @@
-import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, BehaviorSubject } from 'rxjs';
-import { tap } from 'rxjs/operators';
-
+import { Injectable, computed, effect, signal, untracked } from '@angular/core';
+import { Observable, EMPTY, defer, from, fromEvent, of, throwError, timer } from 'rxjs';
+import { catchError, concatMap, finalize, map, shareReplay, takeWhile, tap } from 'rxjs/operators';
+import { GridGeneratorService, normalizeWord } from './grid-generator.service';
+import { GridApiService } from './grid-api.service';
+import { ApiError } from './api-error';
+import { SettingsService } from './settings.service';
+import { GameStorageService } from './game-storage.service';
+import { PuzzleCodeService } from './puzzle-code.service';
+import { PuzzleFile, PuzzleFileService } from './puzzle-file.service';
+import { GameClockService } from './game-clock.service';
+import { GameOutcome, StatsService } from './stats.service';
+import { DAILY_CONFIG, DailyChallengeService } from './daily-challenge.service';
+import { createSeededRandom } from './seeded-random';
+import { WORD_LISTS } from '../data/word-lists';
+import { GridValidationError, validateBackendResponse, validateGridResponse } from './grid-validator';
+import { WordFind } from './score';
+import { EMPTY_GAME_STATE, GameStore, patchCells } from './game-store';
+import { SelectionAttempt } from './replay';
+import { ReplayService } from './replay.service';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+
+// Cellule immuable : toute modification passe par une copie (voir patchCells)
 export interface Cell {
-  letter: string;
-  row: number;
-  col: number;
-  isSelected: boolean;
-  isFound: boolean;
+  readonly letter: string;
+  readonly row: number;
+  readonly col: number;
+  readonly isSelected: boolean;
+  readonly foundBy: string[]; // Mots trouvés passant par cette cellule (plusieurs en cas de croisement)
+  readonly revealedBy: string[]; // Mots révélés après abandon passant par cette cellule
+  readonly hintLevel: HintLevel; // Indice le plus fort affiché sur la cellule
 }
 
 export interface WordSolution {
@@ -20,17 +40,41 @@ export interface WordSolution {
 export interface GridResponse {
   grille: string[][];
   solution: WordSolution[];
+  motMystere?: string; // Mot formé, dans l'ordre de lecture, par les cases qu'aucun mot ne couvre
 }
 
+/**
+ * Niveaux d'indice, du plus léger au plus fort :
+ * 1 = ligne (ou colonne) contenant le mot, 2 = première lettre, 3 = mot entier.
+ */
+export type HintLevel = 0 | 1 | 2 | 3;
+
+export const MAX_HINT_LEVEL: HintLevel = 3;
+
 export interface GameState {
+  gameId: number; // Change à chaque nouvelle grille
+  response: GridResponse | null; // Grille telle que générée (lettres et solution)
   grid: Cell[][];
   words: string[];
   foundWords: Set<string>;
+  revealedWords: Set<string>; // Mots non trouvés, dévoilés après l'abandon de la partie
+  finds: WordFind[]; // Mots trouvés dans l'ordre, avec le temps de jeu de chaque découverte
+  wrongSelections: number; // Sélections ne correspondant à aucun mot, pénalisées au score
+  attempts: SelectionAttempt[]; // Toutes les sélections vérifiées, pour la rediffusion
   selectedCells: Cell[];
   isSelecting: boolean;
   lockedDirection?: [number, number]; // Direction verrouillée
+  hints: Record<string, HintLevel>; // Niveau d'indice demandé pour chaque mot
+  config?: GameConfig; // Configuration ayant servi à générer la grille
+  duration?: number; // Durée finale en millisecondes, figée au dernier mot trouvé ou à l'abandon
+  abandoned?: boolean; // Partie abandonnée : plus de sélection, mots restants révélés
+  mysterySolved?: boolean; // Mot mystère deviné, dernière étape d'une grille à mot mystère
+  recordId?: string; // Partie enregistrée dans l'historique (et sa rediffusion), une fois finie
 }
 
+// Délai entre deux mots révélés lors d'un abandon
+export const REVEAL_INTERVAL_MS = 600;
+
 export enum DirectionsEnum{
   H = "H",
   V = "V",
@@ -45,24 +89,60 @@ export const directionCoordinates: Record<DirectionsEnum, [number, number]> = {
   [DirectionsEnum.D2]: [1, 1]  // Diagonale haut
 }
 
+// Sans précision, les mots sont placés dans les quatre directions, sans mots à l'envers
+export const ALL_DIRECTIONS: DirectionsEnum[] = Object.values(DirectionsEnum);
+
+// Vecteurs [dl, dc] autorisés, complétés par leurs opposés quand les mots à l'envers sont permis
+export function getDirectionVectors(directions: DirectionsEnum[] = ALL_DIRECTIONS, envers = false): [number, number][] {
+  const vectors = directions.map(direction => directionCoordinates[direction]);
+  if (!envers) return vectors;
+  // `|| 0` évite les -0, qui s'afficheraient tels quels dans les exports
+  return [...vectors, ...vectors.map(([dr, dc]): [number, number] => [-dr || 0, -dc || 0])];
+}
+
 @Injectable({
   providedIn: 'root'
 })
 export class GameService {
-  private readonly apiUrl = '/api';
-
-  private readonly gameStateSubject = new BehaviorSubject<GameState>({
-    grid: [],
-    words: [],
-    foundWords: new Set(),
-    selectedCells: [],
-    isSelecting: false
-  });
 
-  public gameState$ = this.gameStateSubject.asObservable();
-  private solution: WordSolution[] = [];
+  private backendLanguages$: Observable<string[]> | null = null;
+  private gameCounter = 0;
+  // Erreur du backend rattrapée par le générateur local, pour chaque grille ainsi obtenue
+  private readonly fallbackErrors = new WeakMap<GridResponse, unknown>();
+  private readonly localFallbackSignal = signal<unknown>(null);
+
+  /** Erreur du backend qui a fait générer la grille en cours sur l'appareil, ou null */
+  readonly localFallback = this.localFallbackSignal.asReadonly();
+
+  constructor(
+    private readonly store: GameStore,
+    private readonly gridApi: GridApiService,
+    private readonly gridGenerator: GridGeneratorService,
+    private readonly settingsService: SettingsService,
+    private readonly gameStorage: GameStorageService,
+    private readonly puzzleCode: PuzzleCodeService,
+    private readonly puzzleFile: PuzzleFileService,
+    private readonly clock: GameClockService,
+    private readonly stats: StatsService,
+    private readonly dailyChallenge: DailyChallengeService,
+    private readonly replays: ReplayService
+  ) {
+    // Sauvegarde automatique à chaque nouvelle grille, mot trouvé, indice, erreur, abandon ou mot mystère deviné,
+    // et à la fermeture de la page ; une sélection en cours ne déclenche pas de sauvegarde
+    const saveTrigger = computed(
+      () => {
+        const state = this.store.state();
+        return [state.gameId, state.foundWords, state.hints, state.abandoned, state.wrongSelections, state.mysterySolved];
+      },
+      { equal: (a, b) => a.every((value, i) => value === b[i]) }
+    );
+    effect(() => {
+      saveTrigger();
+      untracked(() => this.saveGame());
+    });
 
-  constructor(private readonly http: HttpClient) {}
+    fromEvent(window, 'pagehide').subscribe(() => this.saveGame());
+  }
 
   loadGame(
     nombre: number = 8,
@@ -70,100 +150,374 @@ export class GameService {
     rows: number = 12,
     cols: number = 12,
     longueurMin: number = 3,
-    longueurMax: number = 10
+    longueurMax: number = 10,
+    directions: DirectionsEnum[] = ALL_DIRECTIONS,
+    envers: boolean = false
   ): Observable<GridResponse> {
-    const params = {
-      nombre: nombre.toString(),
+    const config: GameConfig = { rows, cols, nombre, longueurMin, longueurMax, langue, directions, envers };
+    return this.fetchGrid(config).pipe(
+      tap(response => this.initializeGame(response, config))
+    );
+  }
+
+  /**
+   * Grille correspondant à une configuration, sans démarrer de partie : celle du backend,
+   * vérifiée, ou celle du générateur local. En arrière-plan (grille suivante d'un marathon),
+   * la demande n'annule pas la grille attendue par le joueur, et inversement.
+   */
+  fetchGrid(config: GameConfig, background: boolean = false): Observable<GridResponse> {
+    const { rows, cols, nombre, longueurMin, longueurMax, langue } = config;
+    const directions = config.directions ?? ALL_DIRECTIONS;
+    const envers = config.envers ?? false;
+    const localGrid$ = defer(() => of(config.mystere
+      ? this.gridGenerator.generateMystery(config)
+      : this.gridGenerator.generate(config)));
+
+    // Le backend ne produit pas de grille à mot mystère
+    if (this.settingsService.settings.forceLocalGenerator || config.mystere) {
+      return localGrid$;
+    }
+
+    const request = { nombre, langue, rows, cols, longueurMin, longueurMax, directions, envers };
+    return (background ? this.gridApi.prefetchGrid(request) : this.gridApi.getGrid(request)).pipe(
+      // Une grille incohérente est refusée plutôt que d'afficher une partie impossible à gagner
+      map(response => validateBackendResponse(response, {
+        rows,
+        cols,
+        nombre,
+        directions: getDirectionVectors(directions, envers)
+      })),
+      // Repli sur le générateur local si le backend ne répond pas ou ignore les directions demandées
+      catchError(err => this.canUseLocalGenerator(err)
+        ? localGrid$.pipe(tap(response => this.fallbackErrors.set(response, err)))
+        : throwError(() => err))
+    );
+  }
+
+  // Démarre une grille obtenue par fetchGrid
+  loadFetchedGame(response: GridResponse, config: GameConfig): void {
+    this.initializeGame(response, config);
+  }
+
+  /**
+   * Langues de mots proposées : celles du backend, ou celles des listes intégrées
+   * quand le backend est injoignable ou que la génération hors ligne est forcée.
+   */
+  getWordListLanguages(offline: boolean = this.settingsService.settings.forceLocalGenerator): Observable<string[]> {
+    const localLanguages = Object.keys(WORD_LISTS);
+    if (offline) {
+      return of(localLanguages);
+    }
+
+    // Une seule demande par session ; un échec n'est pas mis en cache
+    this.backendLanguages$ ??= this.gridApi.getLanguages().pipe(
+      catchError(err => {
+        this.backendLanguages$ = null;
+        return throwError(() => err);
+      }),
+      shareReplay(1)
+    );
+    return this.backendLanguages$.pipe(catchError(() => of(localLanguages)));
+  }
+
+  /**
+   * Démarre une partie sur la liste de mots de l'utilisateur, placée localement.
+   * Renvoie les mots qui n'ont pas pu être placés dans la grille.
+   */
+  loadCustomGame(config: GameConfig): string[] {
+    const { response, unplaced } = this.gridGenerator.placeWords(
+      config.motsPersonnalises ?? [],
+      config.rows,
+      config.cols,
+      getDirectionVectors(config.directions, config.envers)
+    );
+    this.initializeLocalGame(response, config);
+    return unplaced;
+  }
+
+  // Démarre une grille à mot mystère, toujours générée localement
+  loadMysteryGame(config: GameConfig): void {
+    this.initializeLocalGame(this.gridGenerator.generateMystery(config), config);
+  }
+
+  /**
+   * Démarre le défi du jour : grille générée localement à partir d'une graine dérivée
+   * de la date, identique pour tous les joueurs ce jour-là.
+   */
+  loadDailyChallenge(date: string): void {
+    const random = createSeededRandom(this.dailyChallenge.seedFor(date));
+    const response = this.gridGenerator.generate(DAILY_CONFIG, random);
+    this.initializeLocalGame(response, { ...DAILY_CONFIG, defiDuJour: date });
+    this.dailyChallenge.markStarted(date);
+  }
+
+  /**
+   * Erreurs du backend que le générateur local peut rattraper : backend injoignable, ou grille
+   * ne respectant pas les directions demandées (un backend qui ne connaît pas ces paramètres
+   * les ignore), que le générateur local, lui, respecte.
+   */
+  private canUseLocalGenerator(err: unknown): boolean {
+    return (err instanceof ApiError && err.isUnavailable)
+      || (err instanceof GridValidationError && err.key === 'validation.forbiddenDirection');
+  }
+
+  /**
+   * Démarre exactement la grille décrite par un code de partage, sans appeler le backend.
+   * Lève une InvalidPuzzleCodeError si le code est invalide.
+   */
+  loadSharedGame(code: string): void {
+    const { response, langue } = this.puzzleCode.decode(code);
+    this.initializeLocalGame(response, this.configFromResponse(response, langue));
+  }
+
+  /**
+   * Démarre la grille d'un fichier importé, déjà vérifié par PuzzleFileService.parse.
+   * Sans configuration dans le fichier, elle est déduite de la grille.
+   */
+  loadPuzzleFile(file: PuzzleFile): void {
+    const response: GridResponse = {
+      grille: file.grille,
+      solution: file.solution,
+      ...(file.motMystere ? { motMystere: file.motMystere } : {})
+    };
+    const { langue, titre, config } = file.metadonnees;
+
+    this.initializeLocalGame(response, {
+      ...(config ?? this.configFromResponse(response, langue)),
+      langue,
+      titre,
+      defiDuJour: undefined
+    });
+  }
+
+  // Fichier de grille décrivant la partie en cours, ou null s'il n'y a pas de partie
+  exportPuzzleFile(titre: string, auteur?: string): PuzzleFile | null {
+    const { response, config } = this.store.state();
+    if (!response || !config) return null;
+
+    return this.puzzleFile.create(response, {
+      titre,
+      auteur,
+      langue: config.langue,
+      config
+    });
+  }
+
+  private configFromResponse(response: GridResponse, langue: string): GameConfig {
+    const lengths = response.solution.map(sol => sol.mot.length);
+    return {
+      rows: response.grille.length,
+      cols: response.grille[0].length,
+      nombre: response.solution.length,
+      longueurMin: Math.min(...lengths),
+      longueurMax: Math.max(...lengths),
       langue,
-      longueur_min: longueurMin.toString(),
-      longueur_max: longueurMax.toString(),
-      n_top: '10000',
-      rows: rows.toString(),
-      cols: cols.toString()
+      ...(response.motMystere ? { mystere: true } : {})
     };
+  }
+
+  // Vrai si une partie est déjà chargée en mémoire (retour sur la page de jeu)
+  hasGame(): boolean {
+    return this.store.response() !== null;
+  }
+
+  // Code de partage de la grille en cours, ou null s'il n'y a pas de partie
+  getShareCode(): string | null {
+    const { response, config } = this.store.state();
+    if (!response || !config) return null;
+    return this.puzzleCode.encode(response, config.langue);
+  }
+
+  /**
+   * Reprend la partie sauvegardée localement, si elle existe et n'est pas terminée.
+   * Renvoie false quand il n'y a rien à reprendre.
+   */
+  restoreGame(): boolean {
+    const saved = this.gameStorage.load();
+    if (!saved) return false;
+
+    try {
+      this.initializeGame(saved.response, saved.config, saved.elapsed);
+    } catch (err) {
+      if (!(err instanceof GridValidationError)) throw err;
+      // Sauvegarde corrompue : on repart sur une nouvelle partie
+      this.gameStorage.clear();
+      return false;
+    }
+
+    const state = this.store.state();
+    const foundWords = new Set(saved.foundWords.filter(word => state.words.includes(word)));
+    const finds = saved.finds.filter(find => foundWords.has(find.word));
 
-    return this.http.get<GridResponse>(`${this.apiUrl}/mots_mele`, { params }).pipe(
-      tap(response => this.initializeGame(response))
+    let grid = state.grid;
+    for (const sol of this.solution) {
+      const word = sol.mot.toUpperCase();
+      if (foundWords.has(word)) {
+        grid = patchCells(grid, this.getSolutionCells(sol, grid), cell => ({ foundBy: [...cell.foundBy, word] }));
+      }
+    }
+
+    const hints = Object.fromEntries(
+      Object.entries(saved.hints).filter(([word]) => state.words.includes(word))
     );
+    grid = this.applyHints(grid, hints, foundWords);
+
+    this.store.update({ grid, foundWords, hints, finds, wrongSelections: saved.wrongSelections, attempts: saved.attempts });
+    return true;
+  }
+
+  private saveGame(): void {
+    const state = this.store.state();
+    if (!state.response || !state.config) return;
+
+    if (this.store.isGameOver()) {
+      this.gameStorage.clear();
+      return;
+    }
+
+    this.gameStorage.save({
+      config: state.config,
+      response: state.response,
+      foundWords: [...state.foundWords],
+      hints: state.hints,
+      finds: state.finds,
+      wrongSelections: state.wrongSelections,
+      attempts: state.attempts,
+      elapsed: this.clock.elapsed
+    });
+  }
+
+  // Placement d'un mot de la grille (sert à dessiner les traits des mots trouvés)
+  getWordPlacement(word: string): WordSolution | undefined {
+    return this.solution.find(sol => sol.mot.toUpperCase() === word.toUpperCase());
+  }
+
+  private get solution(): WordSolution[] {
+    return this.store.response()?.solution ?? [];
+  }
+
+  private getSolutionCells(sol: WordSolution, grid: Cell[][]): Cell[] {
+    const [startRow, startCol] = sol.start;
+    const [dr, dc] = sol.direction;
+    return [...sol.mot].map((_, i) => grid[startRow + dr * i]?.[startCol + dc * i])
+      .filter((cell): cell is Cell => !!cell);
   }
 
-  private initializeGame(response: GridResponse): void {
+  /**
+   * Démarre une grille obtenue sans le backend : une réponse du backend encore attendue
+   * ne doit pas la remplacer. Les grilles du backend n'annulent rien, pour ne pas
+   * interrompre leur propre demande avant qu'elle n'atteigne l'abonné.
+   */
+  private initializeLocalGame(response: GridResponse, config: GameConfig): void {
+    this.initializeGame(response, config);
+    this.gridApi.cancelPending();
+  }
+
+  private initializeGame(response: GridResponse, config: GameConfig, elapsed: number = 0): void {
+    // Aucune grille n'est affichée sans avoir été vérifiée, quelle que soit sa source
+    validateGridResponse(response);
+    this.recordAbandonedGame();
+    this.localFallbackSignal.set(this.fallbackErrors.get(response) ?? null);
+
     const grid: Cell[][] = response.grille.map((row, rowIndex) =>
       row.map((letter, colIndex) => ({
         letter,
         row: rowIndex,
         col: colIndex,
         isSelected: false,
-        isFound: false
+        foundBy: [],
+        revealedBy: [],
+        hintLevel: 0
       }))
     );
 
     const words = response.solution.map(sol => sol.mot.toUpperCase());
-    this.solution = response.solution;
+    // Le chrono ne repart qu'à la première sélection
+    this.clock.reset(elapsed);
 
-    this.gameStateSubject.next({
+    this.store.set({
+      gameId: ++this.gameCounter,
+      response,
       grid,
       words,
       foundWords: new Set(),
+      revealedWords: new Set(),
+      finds: [],
+      wrongSelections: 0,
+      attempts: [],
       selectedCells: [],
-      isSelecting: false
+      isSelecting: false,
+      hints: {},
+      config
     });
   }
 
   startSelection(cell: Cell): void {
-    const state = this.gameStateSubject.value;
-    cell.isSelected = true;
+    const state = this.store.state();
+    if (state.abandoned) return;
+    this.clock.start();
+    const grid = this.select(state.grid, state.selectedCells, [cell]);
 
-    this.gameStateSubject.next({
-      ...state,
-      selectedCells: [cell],
+    this.store.update({
+      grid,
+      selectedCells: [grid[cell.row][cell.col]],
       isSelecting: true,
-      lockedDirection: undefined // Pas de direction verrouillée au début
+      lockedDirection: undefined // Pas de direction tant que la sélection tient sur une cellule
     });
   }
 
+  /**
+   * Étend la sélection en ligne droite de la cellule d'ancrage jusqu'à la cellule visée,
+   * ramenée à la plus proche des 8 directions. Revenir vers l'ancre raccourcit la sélection,
+   * et une cellule sautée lors d'un glissé rapide est comblée automatiquement.
+   */
   continueSelection(cell: Cell): void {
-    const state = this.gameStateSubject.value;
-    if (!state.isSelecting) return;
+    const state = this.store.state();
+    if (!state.isSelecting || state.selectedCells.length === 0) return;
 
-    const lastCell = state.selectedCells[state.selectedCells.length - 1];
+    const anchor = state.selectedCells[0];
+    const { cells, direction } = this.getLineCells(state.grid, anchor, cell);
+    const grid = this.select(state.grid, state.selectedCells, cells);
 
-    // Ne pas sélectionner deux fois la même cellule
-    if (state.selectedCells.some(c => c.row === cell.row && c.col === cell.col)) return;
+    this.store.update({
+      grid,
+      selectedCells: cells.map(c => grid[c.row][c.col]),
+      lockedDirection: direction
+    });
+  }
 
-    // Vérifier que c'est une cellule adjacente
-    const rowDiff = Math.abs(cell.row - lastCell.row);
-    const colDiff = Math.abs(cell.col - lastCell.col);
-    const isAdjacent = (rowDiff <= 1 && colDiff <= 1) && (rowDiff + colDiff > 0);
+  // Remplace la sélection affichée : seules les cellules qui entrent ou sortent de la sélection changent
+  private select(grid: Cell[][], previous: Cell[], next: Cell[]): Cell[][] {
+    const kept = new Set(next.map(cell => `${cell.row},${cell.col}`));
+    const released = previous.filter(cell => !kept.has(`${cell.row},${cell.col}`));
+    grid = patchCells(grid, released, () => ({ isSelected: false }));
+    return patchCells(grid, next, () => ({ isSelected: true }));
+  }
 
-    if (!isAdjacent) return;
+  private getLineCells(grid: Cell[][], anchor: Cell, target: Cell): { cells: Cell[]; direction?: [number, number] } {
+    const dr = target.row - anchor.row;
+    const dc = target.col - anchor.col;
+    if (dr === 0 && dc === 0) {
+      return { cells: [anchor] };
+    }
 
-    // Calculer la direction actuelle
-    const dr = Math.sign(cell.row - lastCell.row);
-    const dc = Math.sign(cell.col - lastCell.col);
-    const currentDirection: [number, number] = [dr, dc];
+    // Direction la plus proche parmi les 8 (pas de 45°)
+    const octant = Math.round(Math.atan2(dr, dc) / (Math.PI / 4));
+    const stepRow = Math.round(Math.sin(octant * Math.PI / 4));
+    const stepCol = Math.round(Math.cos(octant * Math.PI / 4));
 
-    // Si on a déjà une direction verrouillée (2+ cellules), vérifier qu'on reste dans cette direction
-    if (state.lockedDirection) {
-      const [lockedDr, lockedDc] = state.lockedDirection;
-      if (dr !== lockedDr || dc !== lockedDc) {
-        return; // Direction différente, on refuse
-      }
+    // Longueur : projection du déplacement sur la direction retenue
+    let length = Math.round((dr * stepRow + dc * stepCol) / (stepRow * stepRow + stepCol * stepCol));
+    while (length > 0 && !grid[anchor.row + stepRow * length]?.[anchor.col + stepCol * length]) {
+      length--;
     }
 
-    // Définir la direction verrouillée si c'est la deuxième cellule
-    const newLockedDirection = state.selectedCells.length === 1 ? currentDirection : state.lockedDirection;
-
-    cell.isSelected = true;
-    this.gameStateSubject.next({
-      ...state,
-      selectedCells: [...state.selectedCells, cell],
-      lockedDirection: newLockedDirection
-    });
+    const cells = Array.from({ length: length + 1 }, (_, i) => grid[anchor.row + stepRow * i][anchor.col + stepCol * i]);
+    return { cells, direction: length > 0 ? [stepRow, stepCol] : undefined };
   }
 
   endSelection(): void {
-    const state = this.gameStateSubject.value;
+    const state = this.store.state();
     if (!state.isSelecting || state.selectedCells.length < 2) {
       this.clearSelection();
       return;
@@ -171,25 +525,221 @@ export class GameService {
 
     const selectedWord = state.selectedCells.map(c => c.letter).join('');
     const foundWord = this.checkWord(selectedWord, state.selectedCells);
+    const attempts = [...state.attempts, this.toAttempt(state.selectedCells, foundWord)];
 
-    if (foundWord) {
-      state.selectedCells.forEach(cell => {
-        cell.isFound = true;
-        cell.isSelected = false;
-      });
-
+    // Les cellules trouvées restent sélectionnables : ignorer un mot déjà trouvé
+    if (foundWord && !state.foundWords.has(foundWord)) {
       const newFoundWords = new Set(state.foundWords);
       newFoundWords.add(foundWord.toUpperCase());
+      const grid = this.applyHints(
+        patchCells(state.grid, state.selectedCells, cell => ({ foundBy: [...cell.foundBy, foundWord], isSelected: false })),
+        state.hints,
+        newFoundWords
+      );
 
-      this.gameStateSubject.next({
-        ...state,
+      // Une grille à mot mystère ne se termine qu'une fois le mot deviné
+      const isComplete = newFoundWords.size === state.words.length && !state.response?.motMystere;
+
+      this.store.update({
+        grid,
         foundWords: newFoundWords,
+        finds: [...state.finds, { word: foundWord, elapsed: this.clock.elapsed }],
+        attempts,
+        duration: isComplete ? this.clock.stop() : undefined,
         selectedCells: [],
         isSelecting: false,
         lockedDirection: undefined
       });
+
+      if (isComplete) {
+        this.recordGame('terminee');
+      }
+    } else if (!foundWord) {
+      // Sélection ne formant aucun mot de la grille : pénalité au score
+      this.clearSelection();
+      this.store.update({ wrongSelections: state.wrongSelections + 1, attempts });
     } else {
       this.clearSelection();
+      this.store.update({ attempts });
+    }
+  }
+
+  /**
+   * Proposition du mot mystère, une fois tous les mots trouvés. Une bonne réponse termine
+   * la partie ; une mauvaise est pénalisée comme une sélection erronée. Renvoie le verdict.
+   */
+  guessMysteryWord(guess: string): boolean {
+    if (!this.store.awaitingMystery()) return false;
+
+    const state = this.store.state();
+    if (normalizeWord(guess) !== normalizeWord(state.response?.motMystere ?? '')) {
+      this.store.update({ wrongSelections: state.wrongSelections + 1 });
+      return false;
+    }
+
+    // Partie reprise avec tous les mots trouvés : le chrono n'a pas redémarré
+    this.clock.start();
+    this.store.update({ mysterySolved: true, duration: this.clock.stop() });
+    this.recordGame('terminee');
+    return true;
+  }
+
+  private toAttempt(cells: Cell[], word: string | null): SelectionAttempt {
+    const first = cells[0];
+    const last = cells[cells.length - 1];
+    return {
+      elapsed: this.clock.elapsed,
+      start: [first.row, first.col],
+      end: [last.row, last.col],
+      accepted: word !== null,
+      ...(word ? { word } : {})
+    };
+  }
+
+  /**
+   * Monte d'un niveau l'indice d'un mot non trouvé. Sans mot précisé, poursuit l'aide
+   * sur le mot le plus avancé en indices, sinon sur le premier mot restant.
+   */
+  requestHint(word?: string): void {
+    const state = this.store.state();
+    const target = word?.toUpperCase() ?? this.pickHintWord(state);
+    if (!target || state.abandoned || state.foundWords.has(target) || !state.words.includes(target)) return;
+
+    const level = state.hints[target] ?? 0;
+    if (level >= MAX_HINT_LEVEL) return;
+
+    const hints = { ...state.hints, [target]: (level + 1) as HintLevel };
+    this.store.update({ grid: this.applyHints(state.grid, hints, state.foundWords), hints });
+  }
+
+  private pickHintWord(state: GameState): string | undefined {
+    return state.words
+      .filter(word => !state.foundWords.has(word) && (state.hints[word] ?? 0) < MAX_HINT_LEVEL)
+      .sort((a, b) => (state.hints[b] ?? 0) - (state.hints[a] ?? 0))[0];
+  }
+
+  /**
+   * Recalcule le niveau d'indice affiché sur chaque cellule, en ignorant les mots déjà trouvés.
+   * Renvoie une grille où seules les cellules dont le niveau change sont remplacées.
+   */
+  private applyHints(grid: Cell[][], hints: Record<string, HintLevel>, foundWords: Set<string>): Cell[][] {
+    const levels = new Map<Cell, HintLevel>();
+
+    const raise = (cell: Cell | undefined, level: HintLevel) => {
+      if (cell && (levels.get(cell) ?? 0) < level) levels.set(cell, level);
+    };
+
+    for (const [word, level] of Object.entries(hints)) {
+      const sol = this.solution.find(s => s.mot.toUpperCase() === word);
+      if (!sol || foundWords.has(word) || level === 0) continue;
+
+      const [startRow, startCol] = sol.start;
+      const isVertical = sol.direction[1] === 0;
+      // Mot vertical : on désigne sa colonne, sinon la ligne de sa première lettre
+      if (isVertical) {
+        grid.forEach(row => raise(row[startCol], 1));
+      } else {
+        grid[startRow]?.forEach(cell => raise(cell, 1));
+      }
+
+      if (level >= 2) {
+        raise(grid[startRow]?.[startCol], 2);
+      }
+      if (level >= 3) {
+        this.getSolutionCells(sol, grid).forEach(cell => raise(cell, 3));
+      }
+    }
+
+    return patchCells(grid, grid.flat(), cell => ({ hintLevel: levels.get(cell) ?? 0 }));
+  }
+
+  /**
+   * Abandonne la partie : elle est enregistrée comme abandonnée, puis les mots restants
+   * sont révélés un par un. L'observable émet chaque mot révélé ; s'il est interrompu
+   * (désabonnement), les mots restants sont révélés d'un coup.
+   */
+  abandonGame(): Observable<string> {
+    const state = this.store.state();
+    if (!state.response || this.store.isGameOver()) return EMPTY;
+
+    this.store.update({
+      grid: patchCells(state.grid, state.selectedCells, () => ({ isSelected: false })),
+      abandoned: true,
+      duration: this.clock.stop(),
+      selectedCells: [],
+      isSelecting: false,
+      lockedDirection: undefined
+    });
+    this.recordGame('abandonnee');
+
+    const remaining = state.words.filter(word => !state.foundWords.has(word));
+    const isSameGame = () => this.store.gameId() === state.gameId;
+
+    return from(remaining).pipe(
+      concatMap(word => timer(REVEAL_INTERVAL_MS).pipe(map(() => word))),
+      takeWhile(isSameGame),
+      tap(word => this.revealWord(word)),
+      finalize(() => {
+        if (isSameGame()) remaining.forEach(word => this.revealWord(word));
+      })
+    );
+  }
+
+  private revealWord(word: string): void {
+    const state = this.store.state();
+    const sol = this.getWordPlacement(word);
+    if (!sol || state.revealedWords.has(word)) return;
+
+    this.store.update({
+      grid: patchCells(state.grid, this.getSolutionCells(sol, state.grid), cell => ({ revealedBy: [...cell.revealedBy, word] })),
+      revealedWords: new Set(state.revealedWords).add(word)
+    });
+  }
+
+  // Une partie commencée puis remplacée sans être terminée compte comme abandonnée
+  private recordAbandonedGame(): void {
+    if (this.store.response() && this.clock.isStarted && !this.store.isGameOver()) {
+      this.recordGame('abandonnee');
+    }
+  }
+
+  private recordGame(outcome: GameOutcome): void {
+    const state = this.store.state();
+    if (!state.config) return;
+
+    const duration = state.duration ?? this.clock.elapsed;
+
+    const record = this.stats.record({
+      config: state.config,
+      duration,
+      wordsFound: state.foundWords.size,
+      wordsTotal: state.words.length,
+      outcome,
+      hintsUsed: this.store.hintsUsed(),
+      score: this.store.score().total
+    });
+
+    if (state.response) {
+      this.replays.save({
+        recordId: record.id,
+        date: record.date,
+        config: state.config,
+        response: state.response,
+        attempts: state.attempts,
+        duration,
+        outcome
+      });
+    }
+    this.store.update({ recordId: record.id });
+
+    if (state.config.defiDuJour) {
+      this.dailyChallenge.recordResult({
+        date: state.config.defiDuJour,
+        status: outcome,
+        duration,
+        wordsFound: state.foundWords.size,
+        wordsTotal: state.words.length
+      });
     }
   }
 
@@ -225,32 +775,21 @@ export class GameService {
     return null;
   }
 
-  private clearSelection(): void {
-    const state = this.gameStateSubject.value;
-    state.selectedCells.forEach(cell => {
-      cell.isSelected = false;
-    });
+  clearSelection(): void {
+    const state = this.store.state();
 
-    this.gameStateSubject.next({
-      ...state,
+    this.store.update({
+      grid: patchCells(state.grid, state.selectedCells, () => ({ isSelected: false })),
       selectedCells: [],
       isSelecting: false,
       lockedDirection: undefined
     });
   }
 
-  isGameComplete(): boolean {
-    const state = this.gameStateSubject.value;
-    return state.foundWords.size === state.words.length;
-  }
-
   resetGame(): void {
-    this.gameStateSubject.next({
-      grid: [],
-      words: [],
-      foundWords: new Set(),
-      selectedCells: [],
-      isSelecting: false
-    });
+    this.recordAbandonedGame();
+    this.clock.reset();
+    this.gameStorage.clear();
+    this.store.set(EMPTY_GAME_STATE);
   }
 }
@@ -0,0 +1,75 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { Observable, tap } from 'rxjs';
+import { GridApiService, GridRequest } from './grid-api.service';
+import { ALL_DIRECTIONS, GameService, GridResponse } from './game.service';
+import { GameStore } from './game-store';
+import { apiInterceptor } from '../interceptors/api.interceptor';
+import { MOCK_BACKEND, mockBackendInterceptor } from '../mock-backend/mock-backend.interceptor';
+
+describe('GridApiService', () => {
+  const latencyMs = 50;
+  const request: GridRequest = {
+    nombre: 5, langue: 'fr', rows: 12, cols: 12, longueurMin: 3, longueurMax: 10, directions: ALL_DIRECTIONS, envers: false
+  };
+
+  let api: GridApiService;
+
+  // Suit une demande : réponses reçues et fin du flux, au fil du temps simulé (tick)
+  function watch(grid$: Observable<GridResponse>): { responses: GridResponse[]; completed: boolean } {
+    const result = { responses: [] as GridResponse[], completed: false };
+    grid$.subscribe({ next: response => result.responses.push(response), complete: () => result.completed = true });
+    return result;
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([apiInterceptor, mockBackendInterceptor])),
+        { provide: MOCK_BACKEND, useValue: { scenario: 'succes', latencyMs } }
+      ]
+    });
+    api = TestBed.inject(GridApiService);
+  });
+
+  it('annule la demande précédente quand une nouvelle grille est demandée', fakeAsync(() => {
+    const first = watch(api.getGrid(request));
+    tick(latencyMs / 2);
+    const second = watch(api.getGrid({ ...request, nombre: 6 }));
+    tick(latencyMs);
+
+    expect(first.responses).toEqual([]);
+    expect(first.completed).toBeTrue();
+    expect(second.responses.length).toBe(1);
+    expect(second.responses[0].solution.length).toBe(6);
+  }));
+
+  it('livre sa réponse même si son traitement annule les demandes en attente', fakeAsync(() => {
+    const first = watch(api.getGrid(request));
+    tick(latencyMs / 2);
+    const second = watch(api.getGrid(request).pipe(tap(() => api.cancelPending())));
+    tick(latencyMs);
+
+    expect(first.responses).toEqual([]);
+    expect(second.responses.length).toBe(1);
+  }));
+
+  it('n\'annule pas une grille demandée en arrière-plan', fakeAsync(() => {
+    const prefetched = watch(api.prefetchGrid(request));
+    const current = watch(api.getGrid(request));
+    api.cancelPending();
+    tick(latencyMs);
+
+    expect(prefetched.responses.length).toBe(1);
+    expect(current.responses).toEqual([]);
+  }));
+
+  it('démarre la partie avec la grille du backend et la transmet à l\'abonné', fakeAsync(() => {
+    const game = watch(TestBed.inject(GameService).loadGame(5, 'fr', 12, 12, 3, 10));
+    tick(latencyMs);
+
+    expect(game.responses.length).toBe(1);
+    expect(game.completed).toBeTrue();
+    expect(TestBed.inject(GameStore).response()).toEqual(game.responses[0]);
+  }));
+});
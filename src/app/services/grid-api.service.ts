@@ -0,0 +1,86 @@
+import { Inject, Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, Subject, defer, filter, map, takeUntil, tap } from 'rxjs';
+import { DirectionsEnum, GridResponse } from './game.service';
+import { API_CONFIG, ApiConfig } from '../interceptors/api.interceptor';
+
+// Paramètres d'une demande de grille au backend
+export interface GridRequest {
+  nombre: number;
+  langue: string;
+  rows: number;
+  cols: number;
+  longueurMin: number;
+  longueurMax: number;
+  directions: DirectionsEnum[];
+  envers: boolean;
+}
+
+/**
+ * Client de l'API `/mots_mele`. Une seule demande de grille est active à la fois :
+ * une nouvelle demande annule la précédente, dont la réponse tardive est ignorée.
+ * Les demandes en arrière-plan (prefetchGrid) échappent à ce mécanisme.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GridApiService {
+  private readonly cancel$ = new Subject<void>();
+
+  constructor(
+    private readonly http: HttpClient,
+    @Inject(API_CONFIG) private readonly config: ApiConfig
+  ) {}
+
+  getGrid(request: GridRequest): Observable<GridResponse> {
+    // L'annulation a lieu à l'abonnement, avant d'écouter les annulations suivantes
+    return defer(() => {
+      this.cancelPending();
+      // Une fois la réponse reçue, la demande n'est plus en attente : une annulation déclenchée
+      // pendant sa livraison (démarrage de la partie) ne doit pas l'intercepter
+      let answered = false;
+      return this.requestGrid(request).pipe(
+        tap(() => answered = true),
+        takeUntil(this.cancel$.pipe(filter(() => !answered)))
+      );
+    });
+  }
+
+  // Grille demandée à l'avance (marathon) : ni annulée par les autres demandes, ni ne les annule
+  prefetchGrid(request: GridRequest): Observable<GridResponse> {
+    return this.requestGrid(request);
+  }
+
+  private requestGrid(request: GridRequest): Observable<GridResponse> {
+    const params = {
+      nombre: request.nombre.toString(),
+      langue: request.langue,
+      longueur_min: request.longueurMin.toString(),
+      longueur_max: request.longueurMax.toString(),
+      n_top: '10000',
+      rows: request.rows.toString(),
+      cols: request.cols.toString(),
+      directions: request.directions.join(','),
+      envers: request.envers.toString()
+    };
+
+    return this.http.get<GridResponse>(`${this.config.baseUrl}/mots_mele`, { params });
+  }
+
+  // Codes des langues pour lesquelles le backend dispose d'une liste de mots
+  getLanguages(): Observable<string[]> {
+    return this.http.get<unknown>(`${this.config.baseUrl}/langues`).pipe(
+      map(data => {
+        if (!Array.isArray(data) || data.length === 0 || !data.every(code => typeof code === 'string' && /^[a-z]{2}$/.test(code))) {
+          throw new Error('Liste de langues invalide');
+        }
+        return data as string[];
+      })
+    );
+  }
+
+  // Abandonne la demande de grille en cours, s'il y en a une
+  cancelPending(): void {
+    this.cancel$.next();
+  }
+}
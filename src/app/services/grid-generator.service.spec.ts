@@ -0,0 +1,71 @@
+import { GridGenerationError, GridGeneratorService, MYSTERY_MAX_SIZE } from './grid-generator.service';
+import { uncoveredCells, validateGridResponse } from './grid-validator';
+import { createSeededRandom } from './seeded-random';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+
+describe('GridGeneratorService', () => {
+  let generator: GridGeneratorService;
+
+  const config: GameConfig = { rows: 12, cols: 12, nombre: 6, longueurMin: 3, longueurMax: 10, langue: 'fr' };
+
+  beforeEach(() => {
+    generator = new GridGeneratorService();
+  });
+
+  it('génère une grille jouable avec le nombre de mots demandé', () => {
+    const response = generator.generate(config, createSeededRandom('grille'));
+
+    expect(() => validateGridResponse(response)).not.toThrow();
+    expect(response.grille.length).toBe(12);
+    expect(response.solution.length).toBe(6);
+  });
+
+  it('produit la même grille pour la même graine', () => {
+    expect(generator.generate(config, createSeededRandom('graine')))
+      .toEqual(generator.generate(config, createSeededRandom('graine')));
+  });
+
+  it('signale une langue sans liste de mots', () => {
+    expect(() => generator.generate({ ...config, langue: 'xx' })).toThrowError(GridGenerationError);
+  });
+
+  describe('mot mystère', () => {
+    const mystery: GameConfig = { ...config, mystere: true, motMystere: 'Citron' };
+
+    it('laisse exactement les lettres du mot mystère hors des mots', () => {
+      const response = generator.generateMystery(mystery, createSeededRandom('citron'));
+      const letters = uncoveredCells(response).map(([row, col]) => response.grille[row][col]).join('');
+
+      expect(response.motMystere).toBe('CITRON');
+      expect(letters).toBe('CITRON');
+      expect(() => validateGridResponse(response)).not.toThrow();
+    });
+
+    // Le remplissage a lieu pendant l'interaction : il doit finir vite, même à la plus grande taille
+    for (const langue of ['fr', 'en']) {
+      it(`termine sur une grille ${MYSTERY_MAX_SIZE}x${MYSTERY_MAX_SIZE} (${langue})`, () => {
+        const started = Date.now();
+        const response = generator.generateMystery(
+          { ...mystery, langue, rows: MYSTERY_MAX_SIZE, cols: MYSTERY_MAX_SIZE, longueurMax: 20, motMystere: 'VIOLIN' },
+          createSeededRandom(langue)
+        );
+
+        expect(response.motMystere).toBe('VIOLIN');
+        expect(Date.now() - started).toBeLessThan(5000);
+      });
+    }
+
+    it('refuse une grille plus grande que la taille maximale', () => {
+      expect(() => generator.generateMystery({ ...mystery, rows: 30, cols: 30 }))
+        .toThrowMatching(err => err instanceof GridGenerationError && err.key === 'generator.mysteryTooLarge');
+    });
+
+    it('échoue aussitôt quand les mots disponibles ne peuvent pas couvrir la grille', () => {
+      const started = Date.now();
+
+      expect(() => generator.generateMystery({ ...mystery, rows: 20, cols: 20, longueurMin: 3, longueurMax: 4 }))
+        .toThrowMatching(err => err instanceof GridGenerationError && err.key === 'generator.mysteryFailed');
+      expect(Date.now() - started).toBeLessThan(100);
+    });
+  });
+});
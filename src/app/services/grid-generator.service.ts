@@ -0,0 +1,334 @@
+import { Injectable } from '@angular/core';
+import { GridResponse, WordSolution, getDirectionVectors } from './game.service';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+import { WORD_LISTS } from '../data/word-lists';
+import { RandomFn } from './seeded-random';
+import { FR, TranslationKey } from '../i18n/translations.fr';
+import { formatMessage, MessageParams } from '../i18n/format';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const MAX_ATTEMPTS = 50;
+
+// Plus grande grille à mot mystère : au-delà, les listes intégrées (moins de 1 300 lettres)
+// ne suffisent pas toujours à la remplir
+export const MYSTERY_MAX_SIZE = 20;
+
+// Mot mystère : à chaque étape du remplissage, mots comparés parmi ceux qui trouvent une place,
+// et mots essayés au plus avant d'abandonner la tentative ; longueur d'un mot tiré au hasard
+const MYSTERY_SAMPLE = 20;
+const MYSTERY_SCAN = 60;
+const MYSTERY_ATTEMPTS = 20;
+const MYSTERY_RANDOM_LENGTH = { min: 4, max: 8 };
+
+export interface PlacementResult {
+  response: GridResponse;
+  unplaced: string[]; // Mots de la liste qui n'ont trouvé aucune place dans la grille
+}
+
+export class GridGenerationError extends Error {
+  constructor(public readonly key: TranslationKey, public readonly params: MessageParams = {}) {
+    super(formatMessage(FR[key], params));
+    this.name = 'GridGenerationError';
+  }
+}
+
+// Met un mot au format de la grille : majuscules, sans accents ni séparateurs
+export function normalizeWord(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/Œ/g, 'OE')
+    .replace(/Æ/g, 'AE')
+    .replace(/[^A-Z]/g, '');
+}
+
+/**
+ * Générateur de grilles côté client, utilisé quand le backend `/mots_mele`
+ * est indisponible ou quand le réglage `forceLocalGenerator` est actif.
+ * Produit la même forme de réponse que le backend. Un générateur pseudo-aléatoire
+ * peut être fourni pour obtenir une grille reproductible (défi du jour).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class GridGeneratorService {
+
+  generate(config: GameConfig, random: RandomFn = Math.random): GridResponse {
+    const words = WORD_LISTS[config.langue];
+    if (!words) {
+      throw new GridGenerationError('generator.noWordList', { langue: config.langue });
+    }
+
+    const candidates = this.getCandidates(words, config);
+    if (candidates.length < config.nombre) {
+      throw new GridGenerationError('generator.notEnoughWords', {
+        min: config.longueurMin,
+        max: config.longueurMax,
+        count: config.nombre
+      });
+    }
+
+    const directions = getDirectionVectors(config.directions, config.envers);
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const grid = this.createEmptyGrid(config.rows, config.cols);
+      const solution: WordSolution[] = [];
+
+      for (const word of this.shuffle(candidates, random)) {
+        const placement = this.placeWord(grid, word, directions, random);
+        if (placement) {
+          solution.push(placement);
+          if (solution.length === config.nombre) {
+            return { grille: this.fillEmptyCells(grid, random), solution };
+          }
+        }
+      }
+    }
+
+    throw new GridGenerationError('generator.gridTooSmall', { count: config.nombre, rows: config.rows, cols: config.cols });
+  }
+
+  /**
+   * Grille à mot mystère : les mots couvrent toute la grille sauf autant de cases que le mot
+   * mystère a de lettres, qui l'épellent dans l'ordre de lecture. Le nombre de mots découle
+   * du remplissage (config.nombre est ignoré). Sans mot choisi, un mot de la liste est tiré au hasard.
+   * Le travail est borné (taille de grille, mots essayés par étape, tentatives) : la génération
+   * a lieu pendant l'interaction, et échoue vite plutôt que de figer la page.
+   */
+  generateMystery(config: GameConfig, random: RandomFn = Math.random): GridResponse {
+    const words = WORD_LISTS[config.langue];
+    if (!words) {
+      throw new GridGenerationError('generator.noWordList', { langue: config.langue });
+    }
+
+    if (config.rows > MYSTERY_MAX_SIZE || config.cols > MYSTERY_MAX_SIZE) {
+      throw new GridGenerationError('generator.mysteryTooLarge', { max: MYSTERY_MAX_SIZE });
+    }
+
+    const mystery = config.motMystere ? normalizeWord(config.motMystere) : this.pickMysteryWord(words, config, random);
+    const cells = config.rows * config.cols;
+    if (!mystery || mystery.length > cells / 2) {
+      throw new GridGenerationError('generator.mysteryTooLong', { rows: config.rows, cols: config.cols });
+    }
+
+    const candidates = this.getCandidates(words, config).filter(word => word !== mystery);
+    const failure = new GridGenerationError('generator.mysteryFailed', { word: mystery, rows: config.rows, cols: config.cols });
+    // Même sans aucun croisement, les mots disponibles ne couvriraient pas la grille
+    if (candidates.reduce((sum, word) => sum + word.length, 0) < cells - mystery.length) {
+      throw failure;
+    }
+
+    const directions = getDirectionVectors(config.directions, config.envers);
+    for (let attempt = 0; attempt < MYSTERY_ATTEMPTS; attempt++) {
+      const grid = this.createEmptyGrid(config.rows, config.cols);
+      const solution = this.fillGrid(grid, candidates, directions, mystery.length, random);
+      if (solution) {
+        const letters = [...mystery];
+        return {
+          grille: grid.map(row => row.map(letter => letter || letters.shift()!)),
+          solution,
+          motMystere: mystery
+        };
+      }
+    }
+
+    throw failure;
+  }
+
+  /**
+   * Place une liste de mots imposée (mode « ma propre grille »), en gardant la meilleure
+   * des tentatives. Les mots qui n'ont pas pu être placés sont renvoyés plutôt qu'ignorés.
+   */
+  placeWords(
+    words: string[],
+    rows: number,
+    cols: number,
+    directions: [number, number][] = getDirectionVectors(),
+    random: RandomFn = Math.random
+  ): PlacementResult {
+    const uniqueWords = [...new Set(words.map(normalizeWord))].filter(word => word.length > 0);
+    // Les mots longs sont placés en premier, quand la grille est encore vide
+    const byLength = [...uniqueWords].sort((a, b) => b.length - a.length);
+
+    let best: { grid: string[][]; solution: WordSolution[] } | null = null;
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const grid = this.createEmptyGrid(rows, cols);
+      const solution = byLength
+        .map(word => this.placeWord(grid, word, directions, random))
+        .filter((placement): placement is WordSolution => placement !== null);
+
+      if (!best || solution.length > best.solution.length) {
+        best = { grid, solution };
+      }
+      if (solution.length === uniqueWords.length) break;
+    }
+
+    if (!best || best.solution.length === 0) {
+      throw new GridGenerationError('generator.nonePlaced', { rows, cols });
+    }
+
+    // Conserver l'ordre saisi par l'utilisateur dans la liste des mots à trouver
+    const solution = [...best.solution].sort((a, b) => uniqueWords.indexOf(a.mot) - uniqueWords.indexOf(b.mot));
+    const placed = new Set(solution.map(sol => sol.mot));
+
+    return {
+      response: { grille: this.fillEmptyCells(best.grid, random), solution },
+      unplaced: uniqueWords.filter(word => !placed.has(word))
+    };
+  }
+
+  private getCandidates(words: string[], config: GameConfig): string[] {
+    const maxLength = Math.max(config.rows, config.cols);
+    return [...new Set(words.map(normalizeWord))].filter(word =>
+      word.length >= config.longueurMin &&
+      word.length <= config.longueurMax &&
+      word.length <= maxLength
+    );
+  }
+
+  private pickMysteryWord(words: string[], config: GameConfig, random: RandomFn): string | undefined {
+    const maxLength = Math.min(MYSTERY_RANDOM_LENGTH.max, Math.floor((config.rows * config.cols) / 2));
+    const choices = [...new Set(words.map(normalizeWord))]
+      .filter(word => word.length >= MYSTERY_RANDOM_LENGTH.min && word.length <= maxLength);
+    return choices[Math.floor(random() * choices.length)];
+  }
+
+  /**
+   * Remplit la grille jusqu'à ne laisser que `leftover` cases vides : à chaque étape, parmi
+   * quelques mots tirés au hasard, celui qui couvre le plus de cases vides sans en laisser
+   * moins que `leftover`. Renvoie null si aucun des mots essayés ne peut avancer le remplissage.
+   */
+  private fillGrid(
+    grid: string[][],
+    candidates: string[],
+    directions: [number, number][],
+    leftover: number,
+    random: RandomFn
+  ): WordSolution[] | null {
+    const solution: WordSolution[] = [];
+    let empty = grid.length * grid[0].length;
+
+    while (empty > leftover) {
+      let best: { placement: WordSolution; covered: number } | null = null;
+      let compared = 0;
+      let scanned = 0;
+
+      for (const word of this.shuffle(candidates, random)) {
+        if (solution.some(sol => sol.mot === word)) continue;
+        if (++scanned > MYSTERY_SCAN) break;
+        const option = this.bestCoveringPlacement(grid, word, directions, empty - leftover, random);
+        if (!option) continue;
+
+        if (!best || option.covered > best.covered) best = option;
+        if (++compared === MYSTERY_SAMPLE) break;
+      }
+
+      if (!best) return null;
+
+      const { placement, covered } = best;
+      const [startRow, startCol] = placement.start;
+      const [dr, dc] = placement.direction;
+      [...placement.mot].forEach((letter, i) => {
+        grid[startRow + dr * i][startCol + dc * i] = letter;
+      });
+      solution.push(placement);
+      empty -= covered;
+    }
+
+    return solution;
+  }
+
+  // Position du mot couvrant le plus de cases vides (au plus `maxCovered`, au moins une)
+  private bestCoveringPlacement(
+    grid: string[][],
+    word: string,
+    directions: [number, number][],
+    maxCovered: number,
+    random: RandomFn
+  ): { placement: WordSolution; covered: number } | null {
+    const rows = grid.length;
+    const cols = grid[0].length;
+    let best: { placement: WordSolution; covered: number } | null = null;
+
+    for (const [dr, dc] of directions) {
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          const endRow = row + dr * (word.length - 1);
+          const endCol = col + dc * (word.length - 1);
+          if (endRow < 0 || endRow >= rows || endCol < 0 || endCol >= cols) continue;
+
+          let covered = 0;
+          const fits = [...word].every((letter, i) => {
+            const current = grid[row + dr * i][col + dc * i];
+            if (current === '') covered++;
+            return current === '' || current === letter;
+          });
+          if (!fits || covered === 0 || covered > maxCovered) continue;
+
+          // À couverture égale, une position au hasard
+          if (!best || covered > best.covered || (covered === best.covered && random() < 0.5)) {
+            best = { placement: { mot: word, start: [row, col], direction: [dr, dc] }, covered };
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private createEmptyGrid(rows: number, cols: number): string[][] {
+    return Array.from({ length: rows }, () => new Array<string>(cols).fill(''));
+  }
+
+  // Place le mot à une position aléatoire parmi toutes celles possibles (croisements autorisés)
+  private placeWord(grid: string[][], word: string, directions: [number, number][], random: RandomFn): WordSolution | null {
+    const rows = grid.length;
+    const cols = grid[0].length;
+    const positions: WordSolution[] = [];
+
+    for (const [dr, dc] of directions) {
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          const endRow = row + dr * (word.length - 1);
+          const endCol = col + dc * (word.length - 1);
+          if (endRow < 0 || endRow >= rows || endCol < 0 || endCol >= cols) continue;
+
+          const fits = [...word].every((letter, i) => {
+            const current = grid[row + dr * i][col + dc * i];
+            return current === '' || current === letter;
+          });
+
+          if (fits) {
+            positions.push({ mot: word, start: [row, col], direction: [dr, dc] });
+          }
+        }
+      }
+    }
+
+    if (positions.length === 0) return null;
+
+    const placement = positions[Math.floor(random() * positions.length)];
+    const [startRow, startCol] = placement.start;
+    const [dr, dc] = placement.direction;
+    [...word].forEach((letter, i) => {
+      grid[startRow + dr * i][startCol + dc * i] = letter;
+    });
+
+    return placement;
+  }
+
+  private fillEmptyCells(grid: string[][], random: RandomFn): string[][] {
+    return grid.map(row =>
+      row.map(letter => letter || ALPHABET[Math.floor(random() * ALPHABET.length)])
+    );
+  }
+
+  private shuffle<T>(items: T[], random: RandomFn): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+}
@@ -0,0 +1,70 @@
+import { GridCheck, GridValidationError, validateBackendResponse, validateGridResponse } from './grid-validator';
+import { getDirectionVectors } from './game.service';
+import { TEST_GRID, failedCheck, withChange } from '../testing/grid-fixtures';
+
+describe('validation des grilles', () => {
+  const response = TEST_GRID;
+
+  function checkOf(validate: () => unknown): GridCheck | null {
+    return failedCheck(GridValidationError, validate);
+  }
+
+  describe('validateGridResponse', () => {
+    it('accepte une grille jouable', () => {
+      expect(validateGridResponse(response)).toEqual(response);
+    });
+
+    it('refuse une réponse sans grille ou sans solution', () => {
+      expect(checkOf(() => validateGridResponse(null))).toBe('structure');
+      expect(checkOf(() => validateGridResponse({ grille: [], solution: response.solution }))).toBe('structure');
+      expect(checkOf(() => validateGridResponse(withChange(response, data => data.solution = [])))).toBe('structure');
+      expect(checkOf(() => validateGridResponse(withChange(response, data => Reflect.deleteProperty(data.solution[0], 'start'))))).toBe('structure');
+    });
+
+    it('indique la vérification qui échoue', () => {
+      expect(checkOf(() => validateGridResponse(withChange(response, data => data.grille[2].pop())))).toBe('rectangulaire');
+      expect(checkOf(() => validateGridResponse(withChange(response, data => data.grille[2][3] = '7')))).toBe('lettres');
+      expect(checkOf(() => validateGridResponse(withChange(response, data => data.solution[0].direction = [0, 2])))).toBe('direction');
+      expect(checkOf(() => validateGridResponse(withChange(response, data => data.solution[1].start = [1, 2])))).toBe('limites');
+      expect(checkOf(() => validateGridResponse(withChange(response, data => data.solution[1].mot = 'RAS')))).toBe('correspondance');
+      expect(checkOf(() => validateGridResponse(withChange(response, data => data.solution.push(data.solution[0]))))).toBe('doublons');
+    });
+
+    it('vérifie que les lettres restantes forment le mot mystère', () => {
+      const mystery = withChange(response, data => data.motMystere = 'EZOUP');
+
+      expect(checkOf(() => validateGridResponse(mystery))).toBeNull();
+      expect(checkOf(() => validateGridResponse(withChange(response, data => data.motMystere = 'ZOUPE')))).toBe('mystere');
+      expect(checkOf(() => validateGridResponse(withChange(response, data => data.motMystere = '')))).toBe('mystere');
+    });
+
+    it('décrit l\'erreur par une clé de traduction et ses paramètres', () => {
+      try {
+        validateGridResponse(withChange(response, data => data.solution[1].mot = 'RAS'));
+        fail('la grille aurait dû être refusée');
+      } catch (err) {
+        expect(err).toEqual(jasmine.any(GridValidationError));
+        expect((err as GridValidationError).key).toBe('validation.mismatch');
+        expect((err as GridValidationError).params).toEqual({ letters: 'RAT', word: 'RAS' });
+      }
+    });
+  });
+
+  describe('validateBackendResponse', () => {
+    const expected = { rows: 3, cols: 4, nombre: 2, directions: getDirectionVectors() };
+
+    it('accepte une grille conforme à la demande', () => {
+      expect(validateBackendResponse(response, expected)).toEqual(response);
+    });
+
+    it('refuse une grille jouable mais différente de la demande', () => {
+      expect(checkOf(() => validateBackendResponse(response, { ...expected, rows: 4 }))).toBe('dimensions');
+      expect(checkOf(() => validateBackendResponse(response, { ...expected, nombre: 3 }))).toBe('nombre');
+      expect(checkOf(() => validateBackendResponse(response, { ...expected, directions: [[1, 0]] }))).toBe('direction');
+    });
+
+    it('vérifie d\'abord que la grille est jouable', () => {
+      expect(checkOf(() => validateBackendResponse({ grille: 'CHAT' }, expected))).toBe('structure');
+    });
+  });
+});
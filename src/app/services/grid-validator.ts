@@ -0,0 +1,168 @@
+import { GridResponse, WordSolution } from './game.service';
+import { FR, TranslationKey } from '../i18n/translations.fr';
+import { formatMessage, MessageParams } from '../i18n/format';
+
+// Vérification ayant échoué, pour les messages et le diagnostic
+export type GridCheck =
+  'structure' | 'rectangulaire' | 'lettres' | 'direction' | 'limites' | 'correspondance' | 'doublons' |
+  'dimensions' | 'nombre' | 'mystere';
+
+// Ce que la partie demandée impose à la grille reçue
+export interface GridExpectations {
+  rows: number;
+  cols: number;
+  nombre: number;
+  directions: [number, number][];
+}
+
+// Le message (en français, pour les journaux) est traduit par I18nService.describeError à partir de `key`
+export class GridValidationError extends Error {
+  constructor(
+    public readonly check: GridCheck,
+    public readonly key: TranslationKey,
+    public readonly params: MessageParams = {}
+  ) {
+    super(formatMessage(FR[key], params));
+    this.name = 'GridValidationError';
+  }
+}
+
+/**
+ * Vérifie qu'une grille est jouable : grille rectangulaire de lettres, et chaque mot
+ * de la solution placé dans la grille le long de sa direction, lettre pour lettre.
+ * Lève une GridValidationError décrivant la première vérification qui échoue.
+ */
+export function validateGridResponse(data: unknown): GridResponse {
+  const response = data as GridResponse;
+
+  if (!Array.isArray(response?.grille) || response.grille.length === 0 ||
+    !response.grille.every(row => Array.isArray(row))) {
+    throw new GridValidationError('structure', 'validation.gridShape');
+  }
+  if (!Array.isArray(response.solution) || response.solution.length === 0) {
+    throw new GridValidationError('structure', 'validation.emptySolution');
+  }
+
+  const rows = response.grille.length;
+  const cols = response.grille[0].length;
+  if (cols === 0) {
+    throw new GridValidationError('rectangulaire', 'validation.emptyRow');
+  }
+  response.grille.forEach((row, i) => {
+    if (row.length !== cols) {
+      throw new GridValidationError('rectangulaire', 'validation.rowLength', { row: i + 1, count: row.length, cols });
+    }
+    row.forEach((letter, j) => {
+      if (typeof letter !== 'string' || !/^\p{L}$/u.test(letter)) {
+        throw new GridValidationError('lettres', 'validation.notALetter', { row: i + 1, col: j + 1 });
+      }
+    });
+  });
+
+  response.solution.forEach((sol, i) => validatePlacement(response.grille, sol, i, rows, cols));
+
+  const seen = new Set<string>();
+  for (const sol of response.solution) {
+    const word = sol.mot.toUpperCase();
+    if (seen.has(word)) {
+      throw new GridValidationError('doublons', 'validation.duplicate', { word });
+    }
+    seen.add(word);
+  }
+
+  if (response.motMystere !== undefined) {
+    validateMysteryWord(response);
+  }
+
+  return response;
+}
+
+// Cases qu'aucun mot de la solution ne couvre, dans l'ordre de lecture
+export function uncoveredCells(response: GridResponse): [number, number][] {
+  const covered = new Set<string>();
+  for (const sol of response.solution) {
+    const [dr, dc] = sol.direction;
+    for (let i = 0; i < sol.mot.length; i++) {
+      covered.add(`${sol.start[0] + dr * i},${sol.start[1] + dc * i}`);
+    }
+  }
+
+  return response.grille.flatMap((letters, row) =>
+    letters.map((_, col): [number, number] => [row, col]).filter(([r, c]) => !covered.has(`${r},${c}`))
+  );
+}
+
+/**
+ * Vérifie une réponse du backend : grille jouable (validateGridResponse) et conforme
+ * à la demande (dimensions, nombre de mots, directions autorisées).
+ */
+export function validateBackendResponse(data: unknown, expected: GridExpectations): GridResponse {
+  const response = validateGridResponse(data);
+
+  const rows = response.grille.length;
+  const cols = response.grille[0].length;
+  if (rows !== expected.rows || cols !== expected.cols) {
+    throw new GridValidationError('dimensions', 'validation.dimensions', {
+      rows, cols, expectedRows: expected.rows, expectedCols: expected.cols
+    });
+  }
+  if (response.solution.length !== expected.nombre) {
+    throw new GridValidationError('nombre', 'validation.wordCount', { count: response.solution.length, expected: expected.nombre });
+  }
+
+  return validateDirections(response, expected.directions);
+}
+
+/**
+ * Vérifie que chaque mot de la solution suit l'une des directions autorisées
+ * par la configuration de la partie.
+ */
+export function validateDirections(response: GridResponse, allowed: [number, number][]): GridResponse {
+  for (const sol of response.solution) {
+    const [dr, dc] = sol.direction;
+    if (!allowed.some(([ar, ac]) => ar === dr && ac === dc)) {
+      throw new GridValidationError('direction', 'validation.forbiddenDirection', { word: sol.mot, dr, dc });
+    }
+  }
+  return response;
+}
+
+function validatePlacement(grille: string[][], sol: WordSolution, index: number, rows: number, cols: number): void {
+  if (typeof sol?.mot !== 'string' || sol.mot.length < 2 || !isCoordinate(sol.start) || !isCoordinate(sol.direction)) {
+    throw new GridValidationError('structure', 'validation.wordShape', { index: index + 1 });
+  }
+
+  const [dr, dc] = sol.direction;
+  if (Math.abs(dr) > 1 || Math.abs(dc) > 1 || (dr === 0 && dc === 0)) {
+    throw new GridValidationError('direction', 'validation.unknownDirection', { word: sol.mot, dr, dc });
+  }
+
+  const [row, col] = sol.start;
+  const endRow = row + dr * (sol.mot.length - 1);
+  const endCol = col + dc * (sol.mot.length - 1);
+  if (row < 0 || row >= rows || col < 0 || col >= cols || endRow < 0 || endRow >= rows || endCol < 0 || endCol >= cols) {
+    throw new GridValidationError('limites', 'validation.outOfGrid', { word: sol.mot, rows, cols });
+  }
+
+  const letters = Array.from(sol.mot, (_, i) => grille[row + dr * i][col + dc * i]).join('');
+  if (letters.toUpperCase() !== sol.mot.toUpperCase()) {
+    throw new GridValidationError('correspondance', 'validation.mismatch', { letters, word: sol.mot });
+  }
+}
+
+// Le mot mystère doit être exactement les lettres restantes, une fois tous les mots barrés
+function validateMysteryWord(response: GridResponse): void {
+  const word = response.motMystere;
+  if (typeof word !== 'string' || !/^\p{L}+$/u.test(word)) {
+    throw new GridValidationError('mystere', 'validation.mysteryShape');
+  }
+
+  const letters = uncoveredCells(response).map(([row, col]) => response.grille[row][col]).join('');
+  if (letters.toUpperCase() !== word.toUpperCase()) {
+    throw new GridValidationError('mystere', 'validation.mysteryLetters', { letters, word });
+  }
+}
+
+function isCoordinate(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every(n => Number.isInteger(n));
+}
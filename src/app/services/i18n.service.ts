@@ -0,0 +1,90 @@
+import { Injectable, WritableSignal, signal } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Observable } from 'rxjs';
+import { SettingsService } from './settings.service';
+import { ApiError } from './api-error';
+import { GridGenerationError } from './grid-generator.service';
+import { GridValidationError } from './grid-validator';
+import { PuzzleFileError } from './puzzle-file.service';
+import { InvalidPuzzleCodeError } from './puzzle-code.service';
+import { FR, TranslationKey } from '../i18n/translations.fr';
+import { EN } from '../i18n/translations.en';
+import { formatMessage, MessageParams } from '../i18n/format';
+
+export type UiLanguage = 'fr' | 'en';
+
+export const UI_LANGUAGES: { code: UiLanguage; label: string }[] = [
+  { code: 'fr', label: 'Français' },
+  { code: 'en', label: 'English' }
+];
+
+const TRANSLATIONS: Record<UiLanguage, Record<TranslationKey, string>> = { fr: FR, en: EN };
+
+/**
+ * Langue de l'interface, choisie à l'exécution et conservée dans les réglages.
+ * Elle est indépendante de la langue des mots de la grille (`GameConfig.langue`).
+ * La langue est un signal : les vues OnPush qui traduisent se mettent à jour quand elle change.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class I18nService {
+  private readonly languageSignal: WritableSignal<UiLanguage>;
+
+  public readonly language$: Observable<UiLanguage>;
+
+  constructor(private readonly settingsService: SettingsService) {
+    this.languageSignal = signal(this.settingsService.settings.langueInterface);
+    this.language$ = toObservable(this.languageSignal);
+    document.documentElement.lang = this.language;
+  }
+
+  get language(): UiLanguage {
+    return this.languageSignal();
+  }
+
+  setLanguage(language: UiLanguage): void {
+    this.settingsService.update({ langueInterface: language });
+    this.languageSignal.set(language);
+    document.documentElement.lang = language;
+  }
+
+  translate(key: TranslationKey, params?: MessageParams): string {
+    return formatMessage(TRANSLATIONS[this.language][key] ?? FR[key] ?? key, params);
+  }
+
+  // Nom d'une langue de mots (code ISO) dans la langue de l'interface
+  languageName(code: string): string {
+    try {
+      const name = new Intl.DisplayNames([this.language], { type: 'language' }).of(code);
+      return name ? name.charAt(0).toUpperCase() + name.slice(1) : code;
+    } catch {
+      return code;
+    }
+  }
+
+  // Message d'erreur pour le joueur ; les erreurs non reconnues prennent le message de repli
+  describeError(err: unknown, fallback: TranslationKey): string {
+    if (err instanceof ApiError) {
+      // Le détail rédigé par le backend est affiché tel quel
+      if (typeof err.detail === 'string' && err.detail.trim()) return err.detail;
+      if (err.fields.length > 0) return this.translate('api.fields', { fields: err.fields.join(', ') });
+      return this.translate(`api.${err.kind}`);
+    }
+    if (err instanceof GridGenerationError) {
+      return this.translate(err.key, err.params);
+    }
+    // Fichiers et liens reprennent la vérification de grille ayant échoué ; seules
+    // les réponses du backend arrivent ici sans être enveloppées
+    if (err instanceof GridValidationError) {
+      return this.translate('error.invalidResponse', { message: this.translate(err.key, err.params) });
+    }
+    if (err instanceof PuzzleFileError) {
+      return this.translate('error.puzzleFile', { detail: this.translate(err.key, err.params) });
+    }
+    if (err instanceof InvalidPuzzleCodeError) {
+      return this.translate('error.puzzleCode', { reason: this.translate(err.key, err.params) });
+    }
+    return this.translate(fallback);
+  }
+}
@@ -0,0 +1,69 @@
+import { marathonConfig } from './marathon.service';
+import { MYSTERY_MAX_SIZE } from './grid-generator.service';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+
+describe('marathonConfig', () => {
+  const base: GameConfig = { rows: 10, cols: 12, nombre: 8, longueurMin: 3, longueurMax: 8, langue: 'fr' };
+
+  it('reprend la configuration de départ pour la première grille', () => {
+    expect(marathonConfig(base, 0, true)).toBe(base);
+  });
+
+  it('garde la même configuration sans difficulté progressive', () => {
+    expect(marathonConfig(base, 5, false)).toBe(base);
+  });
+
+  it('ne réutilise pas le mot mystère choisi après la première grille', () => {
+    const mystery: GameConfig = { ...base, mystere: true, motMystere: 'CITRON' };
+
+    expect(marathonConfig(mystery, 0, false).motMystere).toBe('CITRON');
+    expect(marathonConfig(mystery, 1, false).motMystere).toBeUndefined();
+    expect(marathonConfig(mystery, 1, false).mystere).toBeTrue();
+  });
+
+  it('augmente progressivement la taille, le nombre et la longueur des mots', () => {
+    const config = marathonConfig(base, 6, true);
+
+    expect(config.rows).toBe(13);
+    expect(config.cols).toBe(15);
+    expect(config.nombre).toBe(14);
+    expect(config.longueurMin).toBe(5);
+    expect(config.longueurMax).toBe(10);
+  });
+
+  it('plafonne la taille de la grille à celle du formulaire', () => {
+    const config = marathonConfig(base, 100, true);
+
+    expect(config.rows).toBe(30);
+    expect(config.cols).toBe(30);
+    expect(config.nombre).toBe(20);
+  });
+
+  it('ne réduit jamais une grille de départ déjà grande', () => {
+    const large: GameConfig = { ...base, rows: 25, cols: 30, nombre: 20, longueurMax: 15 };
+
+    for (const step of [1, 2, 10, 100]) {
+      const config = marathonConfig(large, step, true);
+      expect(config.rows).toBeGreaterThanOrEqual(25);
+      expect(config.cols).toBe(30);
+      expect(config.nombre).toBe(20);
+      expect(config.longueurMax).toBeGreaterThanOrEqual(15);
+    }
+  });
+
+  it('garde une grille à mot mystère dans la taille que le générateur sait remplir', () => {
+    const config = marathonConfig({ ...base, mystere: true }, 100, true);
+
+    expect(config.rows).toBe(MYSTERY_MAX_SIZE);
+    expect(config.cols).toBe(MYSTERY_MAX_SIZE);
+  });
+
+  it('ne demande jamais plus de mots que la grille ne peut en contenir', () => {
+    const small: GameConfig = { ...base, rows: 5, cols: 5, nombre: 5, longueurMin: 5, longueurMax: 5 };
+
+    for (let step = 1; step < 30; step++) {
+      const config = marathonConfig(small, step, true);
+      expect(config.nombre * config.longueurMin).toBeLessThanOrEqual(config.rows * config.cols);
+    }
+  });
+});
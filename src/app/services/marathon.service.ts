@@ -0,0 +1,166 @@
+import { Injectable, computed, effect, signal, untracked } from '@angular/core';
+import { Observable, ReplaySubject, Subscription, catchError, tap } from 'rxjs';
+import { GameService, GridResponse } from './game.service';
+import { GameStore } from './game-store';
+import { MYSTERY_MAX_SIZE } from './grid-generator.service';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+
+export interface MarathonSession {
+  config: GameConfig; // Configuration de la première grille
+  progressif: boolean;
+  step: number; // Numéro de la grille en cours, à partir de 0
+  gameId: number; // Grille en cours (GameState.gameId) ; toute autre grille met fin au marathon
+  gridsCleared: number;
+  totalTime: number; // Durée cumulée des grilles terminées, en millisecondes
+  clearedGameId?: number; // Dernière grille comptée, pour ne la compter qu'une fois
+}
+
+// Pause entre une grille terminée et la suivante, le temps de voir le résultat
+export const MARATHON_ADVANCE_DELAY_MS = 2000;
+
+// Plafonds de la difficulté progressive : taille et nombre de mots sont ceux du formulaire ;
+// au-delà de 12 lettres, les listes intégrées n'ont plus que quelques mots par longueur
+const MARATHON_LIMITS = { size: 30, nombre: 20, longueur: 12 };
+
+/**
+ * Configuration de la grille `step` d'un marathon. En difficulté progressive, chaque grille
+ * ajoute un mot, toutes les deux grilles la grille s'agrandit d'une ligne et d'une colonne,
+ * et toutes les trois grilles les mots s'allongent d'une lettre.
+ */
+export function marathonConfig(base: GameConfig, step: number, progressif: boolean): GameConfig {
+  if (step === 0) return base;
+  // Un mot mystère choisi ne sert qu'une fois : les grilles suivantes en tirent un au hasard
+  if (base.motMystere) return marathonConfig({ ...base, motMystere: undefined }, step, progressif);
+  if (!progressif) return base;
+
+  // La grille ne rétrécit jamais, et une grille à mot mystère reste remplissable
+  const maxSize = base.mystere ? MYSTERY_MAX_SIZE : MARATHON_LIMITS.size;
+  const rows = Math.max(base.rows, Math.min(maxSize, base.rows + Math.floor(step / 2)));
+  const cols = Math.max(base.cols, Math.min(maxSize, base.cols + Math.floor(step / 2)));
+  const longueurMax = Math.min(
+    Math.max(rows, cols),
+    Math.max(base.longueurMax, Math.min(MARATHON_LIMITS.longueur, base.longueurMax + Math.floor(step / 3)))
+  );
+  const longueurMin = Math.min(longueurMax, base.longueurMin + Math.floor(step / 3));
+  // Même règle que le formulaire : la grille doit pouvoir contenir tous les mots
+  const nombre = Math.max(1, Math.min(
+    Math.max(base.nombre, Math.min(MARATHON_LIMITS.nombre, base.nombre + step)),
+    Math.floor((rows * cols) / longueurMin)
+  ));
+
+  return { ...base, rows, cols, nombre, longueurMin, longueurMax };
+}
+
+/**
+ * Mode marathon : les grilles s'enchaînent avec la même configuration (ou une difficulté
+ * croissante). La grille suivante est demandée en arrière-plan dès le début de la grille
+ * en cours, pour démarrer sans attente. Le marathon s'arrête à l'abandon d'une grille,
+ * ou dès qu'une autre grille est lancée.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MarathonService {
+  private readonly sessionSignal = signal<MarathonSession | null>(null);
+
+  readonly session = this.sessionSignal.asReadonly();
+
+  // Grille du marathon terminée : la suivante peut démarrer
+  readonly isGridCleared = computed(() => {
+    const session = this.session();
+    return !!session && session.clearedGameId === this.store.gameId();
+  });
+
+  private prefetched: { step: number; response$: ReplaySubject<GridResponse> } | null = null;
+  private prefetchSubscription?: Subscription;
+
+  constructor(
+    private readonly store: GameStore,
+    private readonly gameService: GameService
+  ) {
+    effect(() => {
+      const gameId = this.store.gameId();
+      const isComplete = this.store.isComplete();
+      const abandoned = this.store.abandoned();
+      untracked(() => this.onGameChange(gameId, isComplete, abandoned));
+    });
+  }
+
+  // Démarre un marathon par sa première grille
+  start(config: GameConfig): Observable<GridResponse> {
+    const { marathon, ...base } = config;
+    this.stop();
+
+    return this.gameService.fetchGrid(base).pipe(
+      tap(response => {
+        this.gameService.loadFetchedGame(response, base);
+        this.sessionSignal.set({
+          config: base,
+          progressif: !!marathon?.progressif,
+          step: 0,
+          gameId: this.store.gameId(),
+          gridsCleared: 0,
+          totalTime: 0
+        });
+        this.prefetch(1);
+      })
+    );
+  }
+
+  // Démarre la grille suivante : celle demandée à l'avance, ou une nouvelle demande si elle a échoué
+  next(): Observable<GridResponse> {
+    const session = this.session();
+    if (!session) throw new Error('Aucun marathon en cours');
+
+    const step = session.step + 1;
+    const config = marathonConfig(session.config, step, session.progressif);
+    const response$ = this.prefetched?.step === step
+      ? this.prefetched.response$.pipe(catchError(() => this.gameService.fetchGrid(config)))
+      : this.gameService.fetchGrid(config);
+
+    return response$.pipe(
+      tap(response => {
+        // Marathon arrêté pendant l'attente (autre grille lancée) : la grille est ignorée
+        if (this.session() !== session) return;
+        this.gameService.loadFetchedGame(response, config);
+        this.sessionSignal.set({ ...session, step, gameId: this.store.gameId() });
+        this.prefetch(step + 1);
+      })
+    );
+  }
+
+  stop(): void {
+    this.prefetchSubscription?.unsubscribe();
+    this.prefetched = null;
+    this.sessionSignal.set(null);
+  }
+
+  private prefetch(step: number): void {
+    const session = this.session();
+    if (!session) return;
+
+    this.prefetchSubscription?.unsubscribe();
+    const response$ = new ReplaySubject<GridResponse>(1);
+    // Un échec est rattrapé au passage à la grille suivante, par une nouvelle demande
+    this.prefetchSubscription = this.gameService
+      .fetchGrid(marathonConfig(session.config, step, session.progressif), true)
+      .subscribe(response$);
+    this.prefetched = { step, response$ };
+  }
+
+  private onGameChange(gameId: number, isComplete: boolean, abandoned: boolean): void {
+    const session = this.session();
+    if (!session) return;
+
+    if (gameId !== session.gameId || abandoned) {
+      this.stop();
+    } else if (isComplete && session.clearedGameId !== gameId) {
+      this.sessionSignal.set({
+        ...session,
+        gridsCleared: session.gridsCleared + 1,
+        totalTime: session.totalTime + (this.store.duration() ?? 0),
+        clearedGameId: gameId
+      });
+    }
+  }
+}
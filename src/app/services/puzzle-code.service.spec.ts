@@ -0,0 +1,78 @@
+import { InvalidPuzzleCodeError, PuzzleCodeService } from './puzzle-code.service';
+import { GridResponse } from './game.service';
+import { GridGeneratorService } from './grid-generator.service';
+import { createSeededRandom } from './seeded-random';
+import { TEST_GRID } from '../testing/grid-fixtures';
+
+describe('PuzzleCodeService', () => {
+  let service: PuzzleCodeService;
+
+  // Grille de référence, avec un troisième mot à l'envers
+  const response: GridResponse = {
+    ...TEST_GRID,
+    solution: [...TEST_GRID.solution, { mot: 'PUOZ', start: [2, 3], direction: [0, -1] }]
+  };
+
+  function keyOf(code: string): string | null {
+    try {
+      service.decode(code);
+      return null;
+    } catch (err) {
+      if (!(err instanceof InvalidPuzzleCodeError)) throw err;
+      return err.key;
+    }
+  }
+
+  beforeEach(() => {
+    service = new PuzzleCodeService();
+  });
+
+  it('retrouve exactement la grille encodée', () => {
+    const code = service.encode(response, 'fr');
+
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(service.decode(code)).toEqual({ response, langue: 'fr' });
+  });
+
+  it('retrouve une grille générée avec des mots dans toutes les directions', () => {
+    const generated = new GridGeneratorService().generate(
+      { rows: 15, cols: 15, nombre: 12, longueurMin: 3, longueurMax: 10, langue: 'en', envers: true },
+      createSeededRandom('partage')
+    );
+
+    expect(service.decode(service.encode(generated, 'en')).response).toEqual(generated);
+  });
+
+  it('conserve le mot mystère, formé par les lettres restantes', () => {
+    const mystery: GridResponse = { ...response, motMystere: 'E' };
+
+    expect(service.decode(service.encode(mystery, 'fr')).response).toEqual(mystery);
+    expect(service.decode(service.encode(response, 'fr')).response.motMystere).toBeUndefined();
+
+    const generated = new GridGeneratorService().generateMystery(
+      { rows: 10, cols: 10, nombre: 0, longueurMin: 3, longueurMax: 8, langue: 'fr', mystere: true, motMystere: 'citron' },
+      createSeededRandom('mystère')
+    );
+    expect(service.decode(service.encode(generated, 'fr')).response).toEqual(generated);
+  });
+
+  it('lit encore les codes de la version 1', () => {
+    expect(service.decode('AWZyAwQDAAAABAEAAAMCAwQEEcE4gmTLqPBJIw')).toEqual({ response, langue: 'fr' });
+  });
+
+  it('détecte un code retouché', () => {
+    const code = service.encode(response, 'fr');
+    const middle = Math.floor(code.length / 2);
+    const tampered = code.slice(0, middle) + (code[middle] === 'A' ? 'B' : 'A') + code.slice(middle + 1);
+
+    expect(keyOf(tampered)).toBe('puzzleCode.checksum');
+  });
+
+  it('détecte un code tronqué ou illisible', () => {
+    const code = service.encode(response, 'fr');
+
+    expect(keyOf(code.slice(0, -3))).toBe('puzzleCode.checksum');
+    expect(keyOf(code.slice(0, 4))).toBe('puzzleCode.tooShort');
+    expect(keyOf(code + '!')).toBe('puzzleCode.characters');
+  });
+});
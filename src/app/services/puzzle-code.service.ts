@@ -0,0 +1,223 @@
+import { Injectable } from '@angular/core';
+import { GridResponse, WordSolution } from './game.service';
+import { GridValidationError, uncoveredCells, validateGridResponse } from './grid-validator';
+import { FR, TranslationKey } from '../i18n/translations.fr';
+import { formatMessage, MessageParams } from '../i18n/format';
+
+const CODE_VERSION = 2;
+// Versions encore lues : la version 1 n'a pas d'octet d'options
+const SUPPORTED_VERSIONS = [1, 2];
+
+// Options de la grille (octet d'options, depuis la version 2)
+const FLAG_MYSTERY = 1; // Les lettres restantes forment un mot mystère
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Les directions sont encodées par leur index dans cette table (sens inverses compris)
+const DIRECTIONS: [number, number][] = [
+  [0, 1], [1, 0], [-1, 1], [1, 1],
+  [0, -1], [-1, 0], [1, -1], [-1, -1]
+];
+
+export interface SharedPuzzle {
+  response: GridResponse;
+  langue: string;
+}
+
+// La raison est traduite par I18nService.describeError à partir de `key`
+export class InvalidPuzzleCodeError extends Error {
+  constructor(public readonly key: TranslationKey, public readonly params: MessageParams = {}) {
+    super(formatMessage(FR['error.puzzleCode'], { reason: formatMessage(FR[key], params) }));
+    this.name = 'InvalidPuzzleCodeError';
+  }
+}
+
+/**
+ * Encode une grille complète (lettres et placements des mots) dans une chaîne
+ * compacte utilisable dans une URL, et la décode en vérifiant son intégrité.
+ *
+ * Format binaire, avant passage en base64url :
+ * version, langue (2 octets), lignes, colonnes, nombre de mots, options,
+ * puis par mot : ligne, colonne, direction, longueur,
+ * puis les lettres sur 5 bits et enfin une somme de contrôle sur 2 octets.
+ * Le mot mystère n'est pas recopié : ce sont les lettres qu'aucun mot ne couvre.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PuzzleCodeService {
+
+  encode(response: GridResponse, langue: string): string {
+    const rows = response.grille.length;
+    const cols = response.grille[0]?.length ?? 0;
+    const bytes: number[] = [
+      CODE_VERSION,
+      langue.charCodeAt(0) || 0,
+      langue.charCodeAt(1) || 0,
+      rows,
+      cols,
+      response.solution.length,
+      response.motMystere ? FLAG_MYSTERY : 0
+    ];
+
+    for (const sol of response.solution) {
+      const direction = DIRECTIONS.findIndex(([dr, dc]) => dr === sol.direction[0] && dc === sol.direction[1]);
+      if (direction < 0) {
+        throw new Error(`Direction non partageable pour le mot ${sol.mot}`);
+      }
+      bytes.push(sol.start[0], sol.start[1], direction, sol.mot.length);
+    }
+
+    const letters = response.grille.flat().map(letter => {
+      const index = ALPHABET.indexOf(letter.toUpperCase());
+      if (index < 0) {
+        throw new Error(`Lettre non partageable : ${letter}`);
+      }
+      return index;
+    });
+    bytes.push(...this.packLetters(letters));
+
+    const checksum = this.checksum(bytes);
+    bytes.push(checksum >> 8, checksum & 0xff);
+
+    return this.toBase64Url(bytes);
+  }
+
+  decode(code: string): SharedPuzzle {
+    const bytes = this.fromBase64Url(code);
+    if (bytes.length < 8) {
+      throw new InvalidPuzzleCodeError('puzzleCode.tooShort');
+    }
+
+    const payload = bytes.slice(0, -2);
+    const checksum = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+    if (checksum !== this.checksum(payload)) {
+      throw new InvalidPuzzleCodeError('puzzleCode.checksum');
+    }
+
+    const [version, lang1, lang2, rows, cols, wordCount] = payload;
+    if (!SUPPORTED_VERSIONS.includes(version)) {
+      throw new InvalidPuzzleCodeError('puzzleCode.version', { version });
+    }
+    if (rows < 1 || cols < 1 || wordCount < 1) {
+      throw new InvalidPuzzleCodeError('puzzleCode.empty');
+    }
+
+    const flags = version >= 2 ? payload[6] : 0;
+    const wordsOffset = version >= 2 ? 7 : 6;
+    const lettersOffset = wordsOffset + wordCount * 4;
+    const letters = this.unpackLetters(payload.slice(lettersOffset), rows * cols);
+    if (letters.length !== rows * cols || letters.some(index => index >= ALPHABET.length)) {
+      throw new InvalidPuzzleCodeError('puzzleCode.letters');
+    }
+
+    const grille = Array.from({ length: rows }, (_, row) =>
+      letters.slice(row * cols, (row + 1) * cols).map(index => ALPHABET[index])
+    );
+
+    const solution: WordSolution[] = [];
+    for (let i = 0; i < wordCount; i++) {
+      const offset = wordsOffset + i * 4;
+      const [row, col, directionIndex, length] = payload.slice(offset, offset + 4);
+      const direction = DIRECTIONS[directionIndex];
+      if (!direction || length < 2) {
+        throw new InvalidPuzzleCodeError('puzzleCode.placement', { index: i + 1 });
+      }
+
+      const [dr, dc] = direction;
+      const endRow = row + dr * (length - 1);
+      const endCol = col + dc * (length - 1);
+      if (row >= rows || col >= cols || endRow < 0 || endRow >= rows || endCol < 0 || endCol >= cols) {
+        throw new InvalidPuzzleCodeError('puzzleCode.outOfGrid', { index: i + 1 });
+      }
+
+      const mot = Array.from({ length }, (_, k) => grille[row + dr * k][col + dc * k]).join('');
+      solution.push({ mot, start: [row, col], direction: [dr, dc] });
+    }
+
+    const response: GridResponse = { grille, solution };
+    if (flags & FLAG_MYSTERY) {
+      response.motMystere = uncoveredCells(response).map(([row, col]) => grille[row][col]).join('');
+    }
+
+    try {
+      validateGridResponse(response);
+    } catch (err) {
+      throw err instanceof GridValidationError
+        ? new InvalidPuzzleCodeError(err.key, err.params)
+        : new InvalidPuzzleCodeError('puzzleCode.inconsistent');
+    }
+
+    return {
+      response,
+      langue: String.fromCharCode(lang1, lang2).replace(/\0/g, '')
+    };
+  }
+
+  // Regroupe les index de lettres (0-25) sur 5 bits chacun
+  private packLetters(letters: number[]): number[] {
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+
+    for (const letter of letters) {
+      buffer = (buffer << 5) | letter;
+      bits += 5;
+      while (bits >= 8) {
+        bits -= 8;
+        bytes.push((buffer >> bits) & 0xff);
+      }
+    }
+    if (bits > 0) {
+      bytes.push((buffer << (8 - bits)) & 0xff);
+    }
+
+    return bytes;
+  }
+
+  private unpackLetters(bytes: number[], count: number): number[] {
+    const letters: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+
+    for (const byte of bytes) {
+      buffer = ((buffer << 8) | byte) & 0xffff;
+      bits += 8;
+      while (bits >= 5 && letters.length < count) {
+        bits -= 5;
+        letters.push((buffer >> bits) & 0x1f);
+      }
+    }
+
+    return letters;
+  }
+
+  // FNV-1a ramené sur 16 bits : suffisant pour détecter un code tronqué ou retouché
+  private checksum(bytes: number[]): number {
+    let hash = 0x811c9dc5;
+    for (const byte of bytes) {
+      hash ^= byte;
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return (hash ^ (hash >>> 16)) & 0xffff;
+  }
+
+  private toBase64Url(bytes: number[]): string {
+    return btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  }
+
+  private fromBase64Url(code: string): number[] {
+    if (!/^[A-Za-z0-9_-]+$/.test(code)) {
+      throw new InvalidPuzzleCodeError('puzzleCode.characters');
+    }
+
+    try {
+      const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+      return Array.from(binary, char => char.charCodeAt(0));
+    } catch {
+      throw new InvalidPuzzleCodeError('puzzleCode.encoding');
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { PuzzleFile, PuzzleFileCheck, PuzzleFileError, PuzzleFileService } from './puzzle-file.service';
+import { TEST_CONFIG, TEST_GRID, failedCheck, withChange } from '../testing/grid-fixtures';
+
+describe('PuzzleFileService', () => {
+  let service: PuzzleFileService;
+
+  const response = TEST_GRID;
+  const config = TEST_CONFIG;
+
+  // Fichier exporté puis modifié à la main
+  function fileWith(change: (data: PuzzleFile) => void): string {
+    return JSON.stringify(withChange(service.create(response, { titre: 'Animaux', langue: 'fr', config }), change));
+  }
+
+  function checkOf(text: string): PuzzleFileCheck | null {
+    return failedCheck(PuzzleFileError, () => service.parse(text));
+  }
+
+  beforeEach(() => {
+    service = new PuzzleFileService();
+  });
+
+  it('relit un fichier exporté', () => {
+    const file = service.parse(fileWith(() => {}));
+
+    expect(file.grille).toEqual(response.grille);
+    expect(file.solution).toEqual(response.solution);
+    expect(file.metadonnees.titre).toBe('Animaux');
+    expect(file.metadonnees.config).toEqual(config);
+  });
+
+  it('ne reprend que les champs vérifiés', () => {
+    const file = service.parse(fileWith(data => {
+      Object.assign(data, { inconnu: true });
+      Object.assign(data.metadonnees, { config: { ...config, marathon: { progressif: true }, titre: 'Autre titre', langue: 'en' } });
+      Object.assign(data.solution[0], { extra: 'ignoré' });
+    }));
+
+    expect('inconnu' in file).toBeFalse();
+    expect(file.metadonnees.config?.marathon).toBeUndefined();
+    expect(file.metadonnees.config?.titre).toBeUndefined();
+    expect(file.metadonnees.config?.langue).toBe('fr');
+    expect(file.solution[0]).toEqual({ mot: 'CHAT', start: [0, 0], direction: [0, 1] });
+  });
+
+  it('indique la vérification qui échoue', () => {
+    expect(checkOf('pas du json')).toBe('json');
+    expect(checkOf('[]')).toBe('format');
+    expect(checkOf(fileWith(data => data.version = 2))).toBe('version');
+    expect(checkOf(fileWith(data => Object.assign(data, { metadonnees: 'Animaux' })))).toBe('metadonnees');
+    expect(checkOf(fileWith(data => data.solution[1].mot = 'RAS'))).toBe('correspondance');
+    expect(checkOf(fileWith(data => data.metadonnees.config = { ...config, rows: 4 }))).toBe('configuration');
+  });
+
+  it('refuse des champs facultatifs de configuration mal formés', () => {
+    expect(checkOf(fileWith(data => Object.assign(data.metadonnees, { config: { ...config, directions: ['N'] } })))).toBe('configuration');
+    expect(checkOf(fileWith(data => Object.assign(data.metadonnees, { config: { ...config, envers: 'oui' } })))).toBe('configuration');
+    expect(checkOf(fileWith(data => Object.assign(data.metadonnees, { config: { ...config, motsPersonnalises: [1, 2] } })))).toBe('configuration');
+    expect(checkOf(fileWith(data => Object.assign(data.metadonnees, { config: { ...config, mystere: 1 } })))).toBe('configuration');
+  });
+});
@@ -0,0 +1,209 @@
+import { Injectable } from '@angular/core';
+import { ALL_DIRECTIONS, DirectionsEnum, GridResponse } from './game.service';
+import { GridCheck, GridValidationError, validateGridResponse } from './grid-validator';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+import { FR, TranslationKey } from '../i18n/translations.fr';
+import { formatMessage, MessageParams } from '../i18n/format';
+
+export const PUZZLE_FILE_FORMAT = 'melimemots-grille';
+export const PUZZLE_FILE_VERSION = 1;
+
+export interface PuzzleMetadata {
+  titre: string;
+  auteur?: string;
+  langue: string;
+  dateCreation: string; // Date ISO 8601
+  config?: GameConfig; // Paramètres ayant servi à générer la grille, si connus
+}
+
+// Fichier de grille : une GridResponse accompagnée de ses métadonnées (voir docs/puzzle-format.md)
+export interface PuzzleFile extends GridResponse {
+  format: typeof PUZZLE_FILE_FORMAT;
+  version: number;
+  metadonnees: PuzzleMetadata;
+}
+
+export type PuzzleFileCheck = 'json' | 'format' | 'version' | 'metadonnees' | 'configuration' | GridCheck;
+
+// Le détail est traduit par I18nService.describeError à partir de `key`
+export class PuzzleFileError extends Error {
+  constructor(
+    public readonly check: PuzzleFileCheck,
+    public readonly key: TranslationKey,
+    public readonly params: MessageParams = {}
+  ) {
+    super(`Fichier de grille invalide (vérification « ${check} ») : ${formatMessage(FR[key], params)}`);
+    this.name = 'PuzzleFileError';
+  }
+}
+
+const CONFIG_NUMBERS: (keyof GameConfig)[] = ['rows', 'cols', 'nombre', 'longueurMin', 'longueurMax'];
+
+/**
+ * Écrit et relit les fichiers de grille (.json) échangés entre joueurs.
+ * La lecture est stricte : un fichier incomplet ou incohérent est refusé
+ * avec un message indiquant la vérification qui a échoué.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PuzzleFileService {
+
+  create(response: GridResponse, metadata: Omit<PuzzleMetadata, 'dateCreation'>): PuzzleFile {
+    return {
+      format: PUZZLE_FILE_FORMAT,
+      version: PUZZLE_FILE_VERSION,
+      metadonnees: {
+        titre: metadata.titre,
+        ...(metadata.auteur ? { auteur: metadata.auteur } : {}),
+        langue: metadata.langue,
+        dateCreation: new Date().toISOString(),
+        // Une grille exportée n'est plus liée au défi du jour
+        ...(metadata.config ? { config: { ...metadata.config, defiDuJour: undefined } } : {})
+      },
+      grille: response.grille,
+      solution: response.solution,
+      ...(response.motMystere ? { motMystere: response.motMystere } : {})
+    };
+  }
+
+  serialize(file: PuzzleFile): string {
+    return JSON.stringify(file, null, 2);
+  }
+
+  parse(text: string): PuzzleFile {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new PuzzleFileError('json', 'puzzleFile.json');
+    }
+
+    if (!isRecord(data) || data['format'] !== PUZZLE_FILE_FORMAT) {
+      throw new PuzzleFileError('format', 'puzzleFile.format', { format: PUZZLE_FILE_FORMAT });
+    }
+    if (data['version'] !== PUZZLE_FILE_VERSION) {
+      throw new PuzzleFileError('version', 'puzzleFile.version', { version: String(data['version']), expected: PUZZLE_FILE_VERSION });
+    }
+
+    const metadata = data['metadonnees'];
+    if (!isRecord(metadata)) {
+      throw new PuzzleFileError('metadonnees', 'puzzleFile.title');
+    }
+    const metadonnees = this.parseMetadata(metadata);
+
+    let response: GridResponse;
+    try {
+      response = validateGridResponse({ grille: data['grille'], solution: data['solution'], motMystere: data['motMystere'] });
+    } catch (err) {
+      if (err instanceof GridValidationError) {
+        throw new PuzzleFileError(err.check, err.key, err.params);
+      }
+      throw err;
+    }
+
+    if (metadata['config'] !== undefined) {
+      metadonnees.config = this.parseConfig(metadata['config'], metadonnees.langue, response);
+    }
+
+    // Seuls les champs vérifiés sont repris : tout autre contenu du fichier est ignoré
+    return {
+      format: PUZZLE_FILE_FORMAT,
+      version: PUZZLE_FILE_VERSION,
+      metadonnees,
+      grille: response.grille.map(row => [...row]),
+      solution: response.solution.map(({ mot, start, direction }) => ({
+        mot,
+        start: [start[0], start[1]],
+        direction: [direction[0], direction[1]]
+      })),
+      ...(response.motMystere !== undefined ? { motMystere: response.motMystere } : {})
+    };
+  }
+
+  // Métadonnées hors configuration, vérifiée une fois la grille validée
+  private parseMetadata(metadata: Record<string, unknown>): PuzzleMetadata {
+    const { titre, auteur, langue, dateCreation } = metadata;
+    if (typeof titre !== 'string' || titre.trim() === '') {
+      throw new PuzzleFileError('metadonnees', 'puzzleFile.title');
+    }
+    if (auteur !== undefined && typeof auteur !== 'string') {
+      throw new PuzzleFileError('metadonnees', 'puzzleFile.author');
+    }
+    if (typeof langue !== 'string' || !/^[a-z]{2}$/.test(langue)) {
+      throw new PuzzleFileError('metadonnees', 'puzzleFile.language');
+    }
+    if (typeof dateCreation !== 'string' || isNaN(Date.parse(dateCreation))) {
+      throw new PuzzleFileError('metadonnees', 'puzzleFile.date');
+    }
+
+    return {
+      titre,
+      ...(auteur !== undefined ? { auteur } : {}),
+      langue,
+      dateCreation
+    };
+  }
+
+  /**
+   * La configuration, si présente, doit décrire la grille du fichier. Les champs facultatifs
+   * utiles pour rejouer la grille sont vérifiés ; ceux propres à une partie (titre, marathon,
+   * défi du jour) sont ignorés, et la langue est celle des métadonnées.
+   */
+  private parseConfig(config: unknown, langue: string, response: GridResponse): GameConfig {
+    if (!isRecord(config)) {
+      throw new PuzzleFileError('configuration', 'puzzleFile.configNumbers', { fields: CONFIG_NUMBERS.join(', ') });
+    }
+    const { rows, cols, nombre, longueurMin, longueurMax, directions, envers, mystere, motMystere, motsPersonnalises } = config;
+    if (!isPositiveInteger(rows) || !isPositiveInteger(cols) || !isPositiveInteger(nombre) ||
+      !isPositiveInteger(longueurMin) || !isPositiveInteger(longueurMax)) {
+      throw new PuzzleFileError('configuration', 'puzzleFile.configNumbers', { fields: CONFIG_NUMBERS.join(', ') });
+    }
+    if (rows !== response.grille.length || cols !== response.grille[0].length) {
+      throw new PuzzleFileError('configuration', 'puzzleFile.configSize', {
+        rows, cols, gridRows: response.grille.length, gridCols: response.grille[0].length
+      });
+    }
+
+    if (directions !== undefined && !isDirectionList(directions)) {
+      throw new PuzzleFileError('configuration', 'puzzleFile.configField', { field: 'directions' });
+    }
+    if (envers !== undefined && typeof envers !== 'boolean') {
+      throw new PuzzleFileError('configuration', 'puzzleFile.configField', { field: 'envers' });
+    }
+    if (mystere !== undefined && typeof mystere !== 'boolean') {
+      throw new PuzzleFileError('configuration', 'puzzleFile.configField', { field: 'mystere' });
+    }
+    if (motMystere !== undefined && typeof motMystere !== 'string') {
+      throw new PuzzleFileError('configuration', 'puzzleFile.configField', { field: 'motMystere' });
+    }
+    if (motsPersonnalises !== undefined && !isStringList(motsPersonnalises)) {
+      throw new PuzzleFileError('configuration', 'puzzleFile.configField', { field: 'motsPersonnalises' });
+    }
+
+    return {
+      rows, cols, nombre, longueurMin, longueurMax, langue,
+      ...(directions !== undefined ? { directions: [...directions] } : {}),
+      ...(envers !== undefined ? { envers } : {}),
+      ...(mystere !== undefined ? { mystere } : {}),
+      ...(motMystere !== undefined ? { motMystere } : {}),
+      ...(motsPersonnalises !== undefined ? { motsPersonnalises: [...motsPersonnalises] } : {})
+    };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isDirectionList(value: unknown): value is DirectionsEnum[] {
+  return Array.isArray(value) && value.length > 0 && value.every(direction => ALL_DIRECTIONS.includes(direction));
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -0,0 +1,96 @@
+import { Injectable } from '@angular/core';
+import { GridResponse } from './game.service';
+
+export interface SheetOptions {
+  title: string;
+  answerKey: boolean; // Corrigé : chaque mot est surligné à sa place dans la grille
+  answerKeyLabel?: string; // Mention ajoutée au titre du corrigé, dans la langue de l'interface
+}
+
+// Dimensions en unités SVG : le document est vectoriel et s'adapte à la page
+const CELL = 40;
+const MARGIN = 40;
+const TITLE_HEIGHT = 60;
+const MIN_WIDTH = 480;
+const WORD_ROW_HEIGHT = 30;
+const WORD_COLUMN_WIDTH = 220;
+
+/**
+ * Produit des feuilles imprimables (grille et liste de mots, ou corrigé) au format SVG,
+ * sans dépendance externe. Les couleurs restent lisibles en noir et blanc.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PuzzleSvgService {
+
+  renderSheet(response: GridResponse, options: SheetOptions): string {
+    const rows = response.grille.length;
+    const cols = response.grille[0]?.length ?? 0;
+    const gridWidth = cols * CELL;
+    const width = Math.max(gridWidth, MIN_WIDTH) + MARGIN * 2;
+    const gridX = (width - gridWidth) / 2;
+    const gridY = MARGIN + TITLE_HEIGHT;
+
+    const words = response.solution.map(sol => sol.mot.toUpperCase()).sort((a, b) => a.localeCompare(b));
+    const wordColumns = Math.max(1, Math.floor((width - MARGIN * 2) / WORD_COLUMN_WIDTH));
+    const wordRows = Math.ceil(words.length / wordColumns);
+    const listY = gridY + rows * CELL + MARGIN;
+    const height = listY + wordRows * WORD_ROW_HEIGHT + MARGIN;
+
+    const title = options.answerKey ? `${options.title} — ${options.answerKeyLabel ?? 'Corrigé'}` : options.title;
+    const parts: string[] = [
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" font-family="'Segoe UI', Arial, sans-serif">`,
+      `<rect width="${width}" height="${height}" fill="white"/>`,
+      `<text x="${width / 2}" y="${MARGIN + 28}" text-anchor="middle" font-size="30" font-weight="700">${this.escape(title)}</text>`
+    ];
+
+    // Traits du corrigé sous les lettres
+    if (options.answerKey) {
+      for (const sol of response.solution) {
+        const [row, col] = sol.start;
+        const [dr, dc] = sol.direction;
+        const length = sol.mot.length - 1;
+        parts.push(
+          `<line x1="${gridX + (col + 0.5) * CELL}" y1="${gridY + (row + 0.5) * CELL}" ` +
+          `x2="${gridX + (col + dc * length + 0.5) * CELL}" y2="${gridY + (row + dr * length + 0.5) * CELL}" ` +
+          `stroke="#bbb" stroke-opacity="0.6" stroke-width="${CELL * 0.7}" stroke-linecap="round"/>`
+        );
+      }
+    }
+
+    parts.push(`<rect x="${gridX}" y="${gridY}" width="${gridWidth}" height="${rows * CELL}" fill="none" stroke="#333" stroke-width="2"/>`);
+
+    response.grille.forEach((line, row) => line.forEach((letter, col) => {
+      parts.push(
+        `<text x="${gridX + (col + 0.5) * CELL}" y="${gridY + (row + 0.5) * CELL}" text-anchor="middle" ` +
+        `dominant-baseline="central" font-size="24" font-weight="600">${this.escape(letter.toUpperCase())}</text>`
+      );
+    }));
+
+    // Liste des mots, répartie en colonnes sous la grille
+    words.forEach((word, i) => {
+      const x = MARGIN + (i % wordColumns) * WORD_COLUMN_WIDTH;
+      const y = listY + Math.floor(i / wordColumns) * WORD_ROW_HEIGHT;
+      parts.push(
+        `<rect x="${x}" y="${y - 14}" width="14" height="14" fill="none" stroke="#333"/>`,
+        `<text x="${x + 24}" y="${y}" font-size="20">${this.escape(word)}</text>`
+      );
+    });
+
+    parts.push('</svg>');
+    return parts.join('\n');
+  }
+
+  toDataUrl(svg: string): string {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
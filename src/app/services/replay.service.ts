@@ -0,0 +1,55 @@
+import { Injectable } from '@angular/core';
+import { GameReplay } from './replay';
+
+// Seules les dernières parties sont gardées : une rediffusion contient toute la grille
+export const MAX_REPLAYS = 20;
+
+/**
+ * Rediffusions des parties finies, enregistrées avec la partie dans l'historique
+ * (même identifiant que le GameRecord) et conservées localement.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReplayService {
+  private readonly storageKey = 'melimemots.rediffusions';
+
+  private replays: GameReplay[] = this.load();
+
+  save(replay: GameReplay): void {
+    this.persist([...this.replays.filter(r => r.recordId !== replay.recordId), replay].slice(-MAX_REPLAYS));
+  }
+
+  get(recordId: string): GameReplay | null {
+    return this.replays.find(replay => replay.recordId === recordId) ?? null;
+  }
+
+  has(recordId: string): boolean {
+    return this.replays.some(replay => replay.recordId === recordId);
+  }
+
+  clear(): void {
+    this.persist([]);
+  }
+
+  private persist(replays: GameReplay[]): void {
+    this.replays = replays;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(replays));
+    } catch {
+      // Stockage plein ou indisponible : les rediffusions restent disponibles pour la session en cours
+    }
+  }
+
+  private load(): GameReplay[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      const replays = raw ? JSON.parse(raw) : [];
+      return Array.isArray(replays)
+        ? replays.filter(replay => Array.isArray(replay?.attempts) && Array.isArray(replay?.response?.grille))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { Cell, GridResponse } from './game.service';
+import { GameOutcome } from './stats.service';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+
+// Tentative de sélection, horodatée en temps de jeu (millisecondes, pauses exclues)
+export interface SelectionAttempt {
+  elapsed: number;
+  start: [number, number]; // [ligne, colonne] de la première cellule
+  end: [number, number]; // ... et de la dernière
+  accepted: boolean; // Verdict de checkWord
+  word?: string; // Mot reconnu, si la sélection a été acceptée
+}
+
+// Partie finie, telle qu'enregistrée pour être revue
+export interface GameReplay {
+  recordId: string; // Partie correspondante dans l'historique (GameRecord.id)
+  date: string;
+  config: GameConfig;
+  response: GridResponse;
+  attempts: SelectionAttempt[];
+  duration: number;
+  outcome: GameOutcome;
+}
+
+// Cellules d'une tentative : la sélection est toujours une ligne droite (8 directions)
+export function attemptCells<T>(grid: T[][], attempt: SelectionAttempt): T[] {
+  const [startRow, startCol] = attempt.start;
+  const [endRow, endCol] = attempt.end;
+  const dr = Math.sign(endRow - startRow);
+  const dc = Math.sign(endCol - startCol);
+  const length = Math.max(Math.abs(endRow - startRow), Math.abs(endCol - startCol)) + 1;
+
+  return Array.from({ length }, (_, i) => grid[startRow + dr * i]?.[startCol + dc * i])
+    .filter((cell): cell is T => cell !== undefined);
+}
+
+// Nombre de tentatives déjà jouées à un instant de la rediffusion
+export function attemptsPlayedAt(attempts: SelectionAttempt[], elapsed: number): number {
+  const index = attempts.findIndex(attempt => attempt.elapsed > elapsed);
+  return index === -1 ? attempts.length : index;
+}
+
+/**
+ * Grille de la rediffusion après les `played` premières tentatives : mots acceptés
+ * marqués comme trouvés, et sélection `current` affichée comme en cours.
+ */
+export function buildReplayGrid(replay: GameReplay, played: number, current: SelectionAttempt | null): Cell[][] {
+  const foundBy = new Map<string, string[]>();
+  for (const attempt of replay.attempts.slice(0, played)) {
+    if (!attempt.accepted || !attempt.word) continue;
+    for (const [row, col] of attemptCells(coordinates(replay.response), attempt)) {
+      const key = `${row},${col}`;
+      const words = foundBy.get(key) ?? [];
+      if (!words.includes(attempt.word)) foundBy.set(key, [...words, attempt.word]);
+    }
+  }
+
+  const selected = new Set(
+    current ? attemptCells(coordinates(replay.response), current).map(([row, col]) => `${row},${col}`) : []
+  );
+
+  return replay.response.grille.map((letters, row) =>
+    letters.map((letter, col) => ({
+      letter,
+      row,
+      col,
+      isSelected: selected.has(`${row},${col}`),
+      foundBy: foundBy.get(`${row},${col}`) ?? [],
+      revealedBy: [],
+      hintLevel: 0
+    }))
+  );
+}
+
+// Lettres d'une tentative, dans l'ordre de la sélection
+export function attemptLetters(replay: GameReplay, attempt: SelectionAttempt): string {
+  return attemptCells(replay.response.grille, attempt).join('');
+}
+
+function coordinates(response: GridResponse): [number, number][][] {
+  return response.grille.map((letters, row) => letters.map((_, col): [number, number] => [row, col]));
+}
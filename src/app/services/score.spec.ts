@@ -0,0 +1,64 @@
+import { SCORE_RULES, ScoreInput, computeScore } from './score';
+
+describe('computeScore', () => {
+  // Grille 12x12 : coefficient de taille 1, 10 points par lettre
+  const input: ScoreInput = {
+    rows: 12,
+    cols: 12,
+    solution: [
+      { mot: 'CHAT', start: [0, 0], direction: [0, 1] },
+      { mot: 'LAPIN', start: [1, 0], direction: [1, 1] },
+      { mot: 'RAT', start: [5, 5], direction: [0, -1] }
+    ],
+    finds: [],
+    hints: {},
+    wrongSelections: 0
+  };
+
+  it('donne zéro point à une partie sans mot trouvé', () => {
+    const score = computeScore(input);
+
+    expect(score.total).toBe(0);
+    expect(score.words).toEqual([]);
+    expect(score.comboDeadline).toBeNull();
+  });
+
+  it('compte les lettres, avec un bonus pour les diagonales et les mots à l\'envers', () => {
+    const score = computeScore({ ...input, finds: [{ word: 'CHAT' }, { word: 'LAPIN' }, { word: 'RAT' }] });
+
+    expect(score.words.map(w => [w.base, w.direction])).toEqual([[40, 0], [50, 25], [30, 15]]);
+    expect(score.wordPoints).toBe(160);
+    expect(score.total).toBe(160);
+  });
+
+  it('ajuste les points à la taille de la grille, dans les limites du barème', () => {
+    const finds = [{ word: 'CHAT' }];
+
+    expect(computeScore({ ...input, rows: 24, cols: 24, finds }).words[0].base).toBe(40 * SCORE_RULES.maxSizeFactor);
+    expect(computeScore({ ...input, rows: 5, cols: 5, finds }).words[0].base).toBe(40 * SCORE_RULES.minSizeFactor);
+  });
+
+  it('récompense la rapidité et les enchaînements', () => {
+    const score = computeScore({
+      ...input,
+      finds: [{ word: 'CHAT', elapsed: 15_000 }, { word: 'LAPIN', elapsed: 20_000 }, { word: 'RAT', elapsed: 60_000 }]
+    });
+
+    expect(score.words.map(w => w.speed)).toEqual([25, 42, 0]);
+    expect(score.words.map(w => w.combo)).toEqual([0, SCORE_RULES.comboStep, 0]);
+    expect(score.comboChain).toBe(1);
+    expect(score.comboDeadline).toBe(60_000 + SCORE_RULES.comboWindow);
+  });
+
+  it('retire les indices et les erreurs sans descendre sous zéro', () => {
+    const score = computeScore({ ...input, finds: [{ word: 'CHAT' }], hints: { LAPIN: 2 }, wrongSelections: 3 });
+
+    expect(score.hintPenalty).toBe(2 * SCORE_RULES.hintPenalty);
+    expect(score.errorPenalty).toBe(3 * SCORE_RULES.errorPenalty);
+    expect(score.total).toBe(0);
+  });
+
+  it('ignore un mot qui ne fait pas partie de la solution', () => {
+    expect(computeScore({ ...input, finds: [{ word: 'CHIEN' }] }).words).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import { HintLevel, WordSolution } from './game.service';
+
+// Barème : toutes les valeurs sont en points, les durées en millisecondes
+export const SCORE_RULES = {
+  pointsPerLetter: 10,
+  referenceArea: 144, // Grille 12x12 : coefficient de taille 1
+  minSizeFactor: 0.5,
+  maxSizeFactor: 2,
+  diagonalBonus: 0.5, // Part des points du mot ajoutée pour un mot en diagonale
+  backwardBonus: 0.5, // ... et pour un mot écrit à l'envers
+  speedWindow: 30_000, // Bonus de rapidité dégressif jusqu'à 30 s après le mot précédent
+  maxSpeedBonus: 50,
+  comboWindow: 15_000, // Deux mots trouvés à moins de 15 s prolongent l'enchaînement
+  comboStep: 25, // Bonus par mot enchaîné au-delà du premier
+  hintPenalty: 20, // Par niveau d'indice demandé
+  errorPenalty: 5 // Par sélection ne correspondant à aucun mot
+} as const;
+
+// Mot trouvé et moment de la découverte, en temps de jeu
+export interface WordFind {
+  word: string;
+  elapsed?: number; // Absent pour les mots trouvés avant l'ajout du score (sauvegardes anciennes)
+}
+
+export interface ScoreInput {
+  rows: number;
+  cols: number;
+  solution: WordSolution[];
+  finds: WordFind[];
+  hints: Record<string, HintLevel>;
+  wrongSelections: number;
+}
+
+export interface WordScore {
+  word: string;
+  base: number; // Longueur du mot et taille de la grille
+  direction: number; // Bonus de diagonale et d'envers
+  speed: number;
+  combo: number;
+  total: number;
+}
+
+export interface ScoreBreakdown {
+  words: WordScore[];
+  wordPoints: number; // Total des points de base et de direction
+  speedBonus: number;
+  comboBonus: number;
+  hintPenalty: number;
+  errorPenalty: number;
+  total: number; // Jamais négatif
+  comboChain: number; // Longueur de l'enchaînement en cours (0 ou 1 : pas de combo)
+  comboDeadline: number | null; // Temps de jeu au-delà duquel l'enchaînement est rompu
+}
+
+// Sens d'écriture « normaux » : de gauche à droite, de haut en bas, diagonales vers la droite
+const FORWARD_DIRECTIONS: [number, number][] = [[0, 1], [1, 0], [-1, 1], [1, 1]];
+
+/**
+ * Calcule le score d'une partie à partir des mots trouvés (dans l'ordre), des indices
+ * et des erreurs. Fonction pure : le détail est recalculé à chaque changement d'état.
+ */
+export function computeScore(input: ScoreInput): ScoreBreakdown {
+  const sizeFactor = Math.min(
+    SCORE_RULES.maxSizeFactor,
+    Math.max(SCORE_RULES.minSizeFactor, (input.rows * input.cols) / SCORE_RULES.referenceArea)
+  );
+
+  let previousElapsed = 0;
+  let comboChain = 0;
+  const words: WordScore[] = [];
+
+  for (const find of input.finds) {
+    const sol = input.solution.find(s => s.mot.toUpperCase() === find.word);
+    if (!sol) continue;
+
+    const base = Math.round(sol.mot.length * SCORE_RULES.pointsPerLetter * sizeFactor);
+    const direction = Math.round(base * directionBonus(sol.direction));
+
+    let speed = 0;
+    let combo = 0;
+    if (find.elapsed === undefined) {
+      comboChain = 0;
+    } else {
+      const gap = find.elapsed - previousElapsed;
+      if (gap < SCORE_RULES.speedWindow) {
+        speed = Math.round(SCORE_RULES.maxSpeedBonus * (1 - gap / SCORE_RULES.speedWindow));
+      }
+      // Le premier mot de la partie n'enchaîne avec rien
+      comboChain = words.length > 0 && gap <= SCORE_RULES.comboWindow ? comboChain + 1 : 1;
+      combo = (comboChain - 1) * SCORE_RULES.comboStep;
+      previousElapsed = find.elapsed;
+    }
+
+    words.push({ word: find.word, base, direction, speed, combo, total: base + direction + speed + combo });
+  }
+
+  const wordPoints = sum(words.map(w => w.base + w.direction));
+  const speedBonus = sum(words.map(w => w.speed));
+  const comboBonus = sum(words.map(w => w.combo));
+  const hintPenalty = sum(Object.values(input.hints)) * SCORE_RULES.hintPenalty;
+  const errorPenalty = input.wrongSelections * SCORE_RULES.errorPenalty;
+
+  return {
+    words,
+    wordPoints,
+    speedBonus,
+    comboBonus,
+    hintPenalty,
+    errorPenalty,
+    total: Math.max(0, wordPoints + speedBonus + comboBonus - hintPenalty - errorPenalty),
+    comboChain,
+    comboDeadline: comboChain > 0 ? previousElapsed + SCORE_RULES.comboWindow : null
+  };
+}
+
+function directionBonus([dr, dc]: [number, number]): number {
+  const diagonal = dr !== 0 && dc !== 0 ? SCORE_RULES.diagonalBonus : 0;
+  const backward = FORWARD_DIRECTIONS.some(([fr, fc]) => fr === dr && fc === dc) ? 0 : SCORE_RULES.backwardBonus;
+  return diagonal + backward;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
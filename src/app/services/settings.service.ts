@@ -0,0 +1,48 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import type { UiLanguage } from './i18n.service';
+
+export interface AppSettings {
+  forceLocalGenerator: boolean; // Toujours générer les grilles sans appeler le backend
+  langueInterface: UiLanguage; // Langue des textes de l'application, pas celle des mots
+}
+
+const defaultSettings: AppSettings = {
+  forceLocalGenerator: false,
+  langueInterface: 'fr'
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SettingsService {
+  private readonly storageKey = 'melimemots.settings';
+
+  private readonly settingsSubject = new BehaviorSubject<AppSettings>(this.load());
+
+  public settings$ = this.settingsSubject.asObservable();
+
+  get settings(): AppSettings {
+    return this.settingsSubject.value;
+  }
+
+  update(changes: Partial<AppSettings>): void {
+    const settings = { ...this.settingsSubject.value, ...changes };
+    this.settingsSubject.next(settings);
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(settings));
+    } catch {
+      // Stockage indisponible (navigation privée, quota) : les réglages restent en mémoire
+    }
+  }
+
+  private load(): AppSettings {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      return raw ? { ...defaultSettings, ...JSON.parse(raw) } : { ...defaultSettings };
+    } catch {
+      return { ...defaultSettings };
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { GameRecord, StatsService } from './stats.service';
+
+describe('StatsService', () => {
+  const storageKey = 'melimemots.historique';
+  const game: GameRecord = {
+    id: 'a1',
+    date: '2025-03-01T10:00:00.000Z',
+    config: { rows: 12, cols: 12, nombre: 8, longueurMin: 3, longueurMax: 10, langue: 'fr' },
+    duration: 90_000,
+    wordsFound: 8,
+    wordsTotal: 8,
+    outcome: 'terminee',
+    hintsUsed: 1,
+    score: 420
+  };
+
+  function historyFrom(stored: unknown): GameRecord[] {
+    localStorage.setItem(storageKey, JSON.stringify(stored));
+    let history: GameRecord[] = [];
+    new StatsService().history$.subscribe(value => history = value);
+    return history;
+  }
+
+  afterEach(() => {
+    localStorage.removeItem(storageKey);
+  });
+
+  it('relit l\'historique enregistré', () => {
+    const { score, ...withoutScore } = game;
+
+    expect(historyFrom([game, withoutScore])).toEqual([game, withoutScore]);
+  });
+
+  it('écarte les entrées illisibles sans perdre les autres', () => {
+    const history = historyFrom([
+      null,
+      'partie',
+      { ...game, config: null },
+      { ...game, config: { ...game.config, rows: '12' } },
+      { ...game, outcome: 'gagnee' },
+      { ...game, duration: undefined },
+      game
+    ]);
+
+    expect(history).toEqual([game]);
+  });
+
+  it('ignore un historique qui n\'est pas une liste', () => {
+    expect(historyFrom({ parties: [game] })).toEqual([]);
+  });
+
+  it('calcule les statistiques et l\'export CSV malgré une entrée corrompue', () => {
+    localStorage.setItem(storageKey, JSON.stringify([{ ...game, config: null }, game]));
+    const stats = new StatsService();
+    let history: GameRecord[] = [];
+    stats.history$.subscribe(value => history = value);
+
+    expect(stats.summarize(history).bestTimes).toEqual([{ label: '12x12 · fr', duration: 90_000, date: game.date }]);
+    expect(stats.exportCsv().split('\n').length).toBe(2);
+  });
+});
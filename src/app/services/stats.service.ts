@@ -0,0 +1,215 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+
+export type GameOutcome = 'terminee' | 'abandonnee';
+
+export interface GameRecord {
+  id: string;
+  date: string; // Date de fin de partie, au format ISO
+  config: GameConfig;
+  duration: number; // En millisecondes
+  wordsFound: number;
+  wordsTotal: number;
+  outcome: GameOutcome;
+  hintsUsed: number;
+  score?: number; // Absent des parties enregistrées avant l'ajout du score
+}
+
+export interface BestTime {
+  label: string; // Taille de grille et langue, ex. « 12x12 · fr »
+  duration: number;
+  date: string;
+}
+
+export interface StatsSummary {
+  gamesPlayed: number;
+  gamesCompleted: number;
+  gamesAbandoned: number;
+  totalTime: number;
+  wordsFound: number;
+  averageTimePerWord: number | null;
+  bestTimes: BestTime[];
+  currentDayStreak: number; // Jours consécutifs (jusqu'à aujourd'hui) avec au moins une grille terminée
+  bestDayStreak: number;
+  currentWinStreak: number; // Parties terminées d'affilée, sans abandon
+  bestWinStreak: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class StatsService {
+  private readonly storageKey = 'melimemots.historique';
+
+  private readonly historySubject = new BehaviorSubject<GameRecord[]>(this.load());
+
+  // Historique, du plus ancien au plus récent
+  public history$ = this.historySubject.asObservable();
+
+  record(record: Omit<GameRecord, 'id' | 'date'>): GameRecord {
+    const entry: GameRecord = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      date: new Date().toISOString(),
+      ...record
+    };
+
+    this.persist([...this.historySubject.value, entry]);
+    return entry;
+  }
+
+  clear(): void {
+    this.persist([]);
+  }
+
+  summarize(history: GameRecord[]): StatsSummary {
+    const completed = history.filter(game => game.outcome === 'terminee');
+    const totalTime = history.reduce((sum, game) => sum + game.duration, 0);
+    const wordsFound = history.reduce((sum, game) => sum + game.wordsFound, 0);
+    const dayStreaks = this.computeDayStreaks(completed);
+    const winStreaks = this.computeWinStreaks(history);
+
+    return {
+      gamesPlayed: history.length,
+      gamesCompleted: completed.length,
+      gamesAbandoned: history.length - completed.length,
+      totalTime,
+      wordsFound,
+      averageTimePerWord: wordsFound > 0 ? totalTime / wordsFound : null,
+      bestTimes: this.computeBestTimes(completed),
+      currentDayStreak: dayStreaks.current,
+      bestDayStreak: dayStreaks.best,
+      currentWinStreak: winStreaks.current,
+      bestWinStreak: winStreaks.best
+    };
+  }
+
+  exportJson(): string {
+    return JSON.stringify(this.historySubject.value, null, 2);
+  }
+
+  exportCsv(): string {
+    const header = ['date', 'statut', 'langue', 'lignes', 'colonnes', 'mots_trouves', 'mots_total', 'duree_secondes', 'indices', 'score'];
+    const rows = this.historySubject.value.map(game => [
+      game.date,
+      game.outcome,
+      game.config.langue,
+      game.config.rows,
+      game.config.cols,
+      game.wordsFound,
+      game.wordsTotal,
+      Math.round(game.duration / 1000),
+      game.hintsUsed,
+      game.score ?? ''
+    ]);
+
+    return [header, ...rows]
+      .map(row => row.map(value => this.escapeCsv(String(value))).join(','))
+      .join('\n');
+  }
+
+  private computeBestTimes(completed: GameRecord[]): BestTime[] {
+    const best = new Map<string, BestTime>();
+
+    for (const game of completed) {
+      const label = `${game.config.rows}x${game.config.cols} · ${game.config.langue}`;
+      const current = best.get(label);
+      if (!current || game.duration < current.duration) {
+        best.set(label, { label, duration: game.duration, date: game.date });
+      }
+    }
+
+    return [...best.values()].sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+  }
+
+  private computeDayStreaks(completed: GameRecord[]): { current: number; best: number } {
+    // Jours locaux distincts, exprimés en nombre de jours depuis l'époque
+    const days = [...new Set(completed.map(game => this.toDayNumber(new Date(game.date))))].sort((a, b) => a - b);
+
+    let best = 0;
+    let run = 0;
+    days.forEach((day, i) => {
+      run = i > 0 && day === days[i - 1] + 1 ? run + 1 : 1;
+      best = Math.max(best, run);
+    });
+
+    // La série en cours reste valable si la dernière grille date d'aujourd'hui ou d'hier
+    const today = this.toDayNumber(new Date());
+    const lastDay = days[days.length - 1];
+    const current = lastDay !== undefined && today - lastDay <= 1 ? run : 0;
+
+    return { current, best };
+  }
+
+  private computeWinStreaks(history: GameRecord[]): { current: number; best: number } {
+    let best = 0;
+    let current = 0;
+    for (const game of history) {
+      current = game.outcome === 'terminee' ? current + 1 : 0;
+      best = Math.max(best, current);
+    }
+    return { current, best };
+  }
+
+  private toDayNumber(date: Date): number {
+    return Math.floor((date.getTime() - date.getTimezoneOffset() * 60000) / DAY_MS);
+  }
+
+  private escapeCsv(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private persist(history: GameRecord[]): void {
+    this.historySubject.next(history);
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(history));
+    } catch {
+      // Stockage indisponible : l'historique reste disponible pour la session en cours
+    }
+  }
+
+  private load(): GameRecord[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      const history: unknown = raw ? JSON.parse(raw) : [];
+      // Une entrée illisible est écartée sans faire perdre le reste de l'historique
+      return Array.isArray(history) ? history.map(toGameRecord).filter(game => game !== null) : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Partie de l'historique relue depuis le stockage, ou null si elle est inexploitable
+function toGameRecord(data: unknown): GameRecord | null {
+  if (!isRecord(data)) return null;
+
+  const { id, date, config, duration, wordsFound, wordsTotal, outcome, hintsUsed, score } = data;
+  if (typeof id !== 'string' ||
+    typeof date !== 'string' ||
+    !isGameConfig(config) ||
+    typeof duration !== 'number' ||
+    typeof wordsFound !== 'number' ||
+    typeof wordsTotal !== 'number' ||
+    (outcome !== 'terminee' && outcome !== 'abandonnee') ||
+    typeof hintsUsed !== 'number') {
+    return null;
+  }
+
+  return {
+    id, date, config, duration, wordsFound, wordsTotal, outcome, hintsUsed,
+    ...(typeof score === 'number' ? { score } : {})
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isGameConfig(value: unknown): value is GameConfig {
+  return isRecord(value) &&
+    typeof value['langue'] === 'string' &&
+    ['rows', 'cols', 'nombre', 'longueurMin', 'longueurMax'].every(key => typeof value[key] === 'number');
+}
@@ -0,0 +1,60 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+import { GameRecord, StatsService, StatsSummary } from '../services/stats.service';
+import { ReplayService } from '../services/replay.service';
+import { DurationPipe } from '../pipes/duration.pipe';
+import { TranslatePipe } from '../pipes/translate.pipe';
+import { I18nService } from '../services/i18n.service';
+import { downloadFile } from '../utils/download';
+
+@Component({
+  selector: 'app-stats',
+  standalone: true,
+  imports: [CommonModule, RouterLink, DurationPipe, TranslatePipe],
+  templateUrl: './stats.component.html',
+  styleUrl: './stats.component.scss'
+})
+export class StatsComponent implements OnInit, OnDestroy {
+  history: GameRecord[] = [];
+  summary: StatsSummary | null = null;
+
+  private readonly destroy$ = new Subject<void>();
+
+  constructor(
+    private readonly statsService: StatsService,
+    public readonly replays: ReplayService,
+    private readonly i18n: I18nService
+  ) {}
+
+  ngOnInit(): void {
+    this.statsService.history$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(history => {
+        // Les parties les plus récentes en premier
+        this.history = [...history].reverse();
+        this.summary = this.statsService.summarize(history);
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  exportJson(): void {
+    downloadFile(this.statsService.exportJson(), 'melimemots-historique.json', 'application/json');
+  }
+
+  exportCsv(): void {
+    downloadFile(this.statsService.exportCsv(), 'melimemots-historique.csv', 'text/csv');
+  }
+
+  clearHistory(): void {
+    if (confirm(this.i18n.translate('stats.clearConfirm'))) {
+      this.statsService.clear();
+      this.replays.clear();
+    }
+  }
+}
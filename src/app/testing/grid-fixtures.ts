@@ -0,0 +1,37 @@
+import { DirectionsEnum, GridResponse } from '../services/game.service';
+import { GameConfig } from '../game-config-dialog/game-config-dialog.component';
+
+// Grille de référence des tests : CHAT et RAT à l'horizontale, les cases restantes forment EZOUP
+export const TEST_GRID: GridResponse = {
+  grille: [['C', 'H', 'A', 'T'], ['R', 'A', 'T', 'E'], ['Z', 'O', 'U', 'P']],
+  solution: [
+    { mot: 'CHAT', start: [0, 0], direction: [0, 1] },
+    { mot: 'RAT', start: [1, 0], direction: [0, 1] }
+  ]
+};
+
+// Configuration qui produit TEST_GRID
+export const TEST_CONFIG: GameConfig = {
+  rows: 3, cols: 4, nombre: 2, longueurMin: 3, longueurMax: 4, langue: 'fr', directions: [DirectionsEnum.H], envers: false
+};
+
+/**
+ * Copie de `data` modifiée par `change`, sans toucher à la donnée de référence.
+ * Une valeur d'un autre type se place avec Object.assign, comme dans un fichier retouché à la main.
+ */
+export function withChange<T>(data: T, change: (copy: T) => void): T {
+  const copy = structuredClone(data);
+  change(copy);
+  return copy;
+}
+
+// Vérification qui a échoué dans `run` (champ `check` de l'erreur attendue), ou null si tout passe
+export function failedCheck<C>(errorType: new (...args: never[]) => { check: C }, run: () => unknown): C | null {
+  try {
+    run();
+    return null;
+  } catch (err) {
+    if (!(err instanceof errorType)) throw err;
+    return err.check;
+  }
+}
@@ -1,44 +1,177 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
-import { CommonModule } from '@angular/common';
-import { GameService, Cell, GameState } from '../services/game.service';
+import {
+  ChangeDetectionStrategy, Component, OnInit, OnDestroy, ElementRef, ViewChild, computed, effect, signal, untracked
+} from '@angular/core';
+import { CommonModule, Location } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { GameService, Cell, HintLevel } from '../services/game.service';
+import { GameStore } from '../services/game-store';
+import { WordFind } from '../services/score';
+import { I18nService } from '../services/i18n.service';
+import { TranslatePipe } from '../pipes/translate.pipe';
+import { GameClockService } from '../services/game-clock.service';
+import { DailyChallengeService, DailyResult } from '../services/daily-challenge.service';
+import { DurationPipe } from '../pipes/duration.pipe';
+import { PrintSheetComponent } from '../print-sheet/print-sheet.component';
+import { PuzzleToolsComponent } from '../puzzle-tools/puzzle-tools.component';
+import { DefinitionPanelComponent } from '../definition-panel/definition-panel.component';
+import { GameSummaryComponent } from '../game-summary/game-summary.component';
+import { ScoreBoardComponent } from '../score-board/score-board.component';
+import { GridCellComponent } from '../grid-cell/grid-cell.component';
+import { MarathonBannerComponent } from '../marathon-banner/marathon-banner.component';
+import { MysteryWordComponent } from '../mystery-word/mystery-word.component';
+import { MARATHON_ADVANCE_DELAY_MS, MarathonService } from '../services/marathon.service';
+import { PuzzleFileService } from '../services/puzzle-file.service';
 import { GameConfigDialogComponent, GameConfig } from '../game-config-dialog/game-config-dialog.component';
-import { Subject, takeUntil } from 'rxjs';
+import { Observable, Subject, finalize, takeUntil, timer } from 'rxjs';
+
+// Couleurs attribuées aux mots trouvés, dans l'ordre de la liste
+export const WORD_COLORS = ['#667eea', '#f56565', '#48bb78', '#ed8936', '#38b2ac', '#d53f8c', '#ecc94b', '#9f7aea', '#4299e1', '#a0522d'];
+
+// Couleur des mots révélés après abandon, distincte de celles des mots trouvés
+const REVEALED_COLOR = '#a0aec0';
+
+// Trait dessiné sur la grille pour un mot trouvé ou révélé, en coordonnées de cellules
+export interface WordStroke {
+  word: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+  revealed: boolean;
+}
+
+// Mot de la liste, avec son état d'affichage
+export interface WordItem {
+  word: string;
+  found: boolean;
+  revealed: boolean;
+  hint: HintLevel;
+  color: string;
+}
+
+// Déplacements du curseur clavier : flèches, et touches du pavé de navigation pour les diagonales
+const KEY_MOVES: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+  Home: [-1, -1],
+  PageUp: [-1, 1],
+  End: [1, -1],
+  PageDown: [1, 1]
+};
 
 @Component({
   selector: 'app-word-search',
   standalone: true,
-  imports: [CommonModule, GameConfigDialogComponent],
+  imports: [CommonModule, RouterLink, GameConfigDialogComponent, DurationPipe, PrintSheetComponent, PuzzleToolsComponent,
+    DefinitionPanelComponent, GameSummaryComponent, ScoreBoardComponent, GridCellComponent, MarathonBannerComponent,
+    MysteryWordComponent, TranslatePipe],
   templateUrl: './word-search.component.html',
-  styleUrl: './word-search.component.scss'
+  styleUrl: './word-search.component.scss',
+  // L'affichage ne dépend que des signaux de la partie et de l'interface : une sélection
+  // ne redessine que les cellules modifiées (voir GridCellComponent)
+  changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class WordSearchComponent implements OnInit, OnDestroy {
-  gameState: GameState = {
-    grid: [],
-    words: [],
-    foundWords: new Set(),
-    selectedCells: [],
-    isSelecting: false
-  };
+  isLoading = signal(false);
+  error = signal<string | null>(null);
+  warning = signal<string | null>(null);
+  isDialogOpen = signal(false);
+  linkCopied = signal(false);
+  dailyResult = signal<DailyResult | null>(null); // Défi du jour déjà joué : la grille n'est plus accessible
+
+  // Curseur clavier (tabindex itinérant) et message annoncé aux lecteurs d'écran
+  cursor = signal({ row: 0, col: 0 });
+  announcement = signal('');
+
+  // Mot survolé dans la liste, mis en évidence sur la grille
+  hoveredWord = signal<string | null>(null);
+
+  // Mot dont la définition est affichée : le dernier trouvé, ou celui choisi dans la liste
+  definitionWord = signal<string | null>(null);
+
+  // Impression et export de la grille en cours
+  printAnswerKey = signal(false);
 
-  isLoading = false;
-  error: string | null = null;
-  isDialogOpen = false;
+  // Liste des mots et traits des mots trouvés ou révélés, recalculés seulement quand un mot change d'état
+  readonly wordItems = computed(() => this.buildWordItems());
+  readonly wordStrokes = computed(() => this.buildWordStrokes());
 
-  dateDebut: number = Date.now();
-  timeElapsed: string = '0m 0s';
+  readonly sheetTitle = computed(() => {
+    const config = this.store.config();
+    if (config?.titre) return config.titre;
+    if (config?.defiDuJour) return this.i18n.translate('game.sheetTitleDaily', { date: config.defiDuJour });
+    return config ? this.i18n.translate('game.sheetTitle', { rows: config.rows, cols: config.cols }) : 'Mêlimemots';
+  });
+
+  // Numéro de la dernière demande de grille, pour ne lever l'indicateur de chargement qu'à sa fin
+  private loadCount = 0;
+
+  // État du pointeur : glissé en cours, ou sélection en deux touches en attente de sa fin
+  private isPointerDown = false;
+  private awaitingSecondTap = false;
+
+  // Dernier état annoncé, pour repérer les nouvelles grilles et les nouveaux mots trouvés
+  private announced = { gameId: -1, finds: 0 };
+
+  @ViewChild('gridElement') gridElement?: ElementRef<HTMLElement>;
 
   private readonly destroy$ = new Subject<void>();
 
-  constructor(private readonly gameService: GameService) {}
+  constructor(
+    private readonly gameService: GameService,
+    public readonly store: GameStore,
+    public readonly clock: GameClockService,
+    private readonly marathon: MarathonService,
+    private readonly dailyChallenge: DailyChallengeService,
+    private readonly puzzleFile: PuzzleFileService,
+    private readonly i18n: I18nService,
+    private readonly route: ActivatedRoute,
+    private readonly location: Location
+  ) {
+    effect(() => {
+      const gameId = this.store.gameId();
+      const finds = this.store.finds();
+      untracked(() => this.announceChanges(gameId, finds));
+    });
+
+    effect(() => {
+      if (!this.store.isSelecting()) {
+        this.awaitingSecondTap = false;
+      }
+    });
+
+    // Marathon : la grille suivante démarre peu après la fin de la précédente
+    effect(() => {
+      if (this.marathon.isGridCleared()) {
+        untracked(() => this.advanceMarathon());
+      }
+    });
+  }
 
   ngOnInit(): void {
-    this.gameService.gameState$
-      .pipe(takeUntil(this.destroy$))
-      .subscribe(state => {
-        this.gameState = state;
-      });
+    this.clock.resume('page');
+
+    // Une grille partagée par lien est prioritaire sur la partie sauvegardée
+    const code = this.route.snapshot.paramMap.get('code');
+    if (code) {
+      this.loadSharedGame(code);
+      return;
+    }
+
+    if (this.route.snapshot.data['mode'] === 'defi') {
+      this.openDailyChallenge();
+      return;
+    }
+
+    // Retour depuis une autre page : la partie en mémoire continue
+    if (this.gameService.hasGame()) return;
+
+    // Reprendre la partie sauvegardée, sinon charger une partie par défaut
+    if (this.gameService.restoreGame()) return;
 
-    // Charger une partie par défaut au démarrage
     this.loadGame({
       rows: 12,
       cols: 12,
@@ -50,54 +183,210 @@ export class WordSearchComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
+    this.clock.pause('page');
     this.destroy$.next();
     this.destroy$.complete();
   }
 
   openNewGameDialog(): void {
-    this.isDialogOpen = true;
+    this.isDialogOpen.set(true);
+    this.clock.pause('dialogue');
   }
 
   closeDialog(): void {
-    this.isDialogOpen = false;
+    this.isDialogOpen.set(false);
+    this.clock.resume('dialogue');
   }
 
   onConfigConfirm(config: GameConfig): void {
-    this.isDialogOpen = false;
+    this.closeDialog();
+    if (config.marathon) {
+      this.fetchGame(this.marathon.start(config));
+      return;
+    }
     this.loadGame(config);
   }
 
+  printSheet(): void {
+    // Laisser la feuille d'impression se mettre à jour (corrigé coché juste avant)
+    setTimeout(() => window.print());
+  }
+
+  async importPuzzleFile(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Permet de réimporter le même fichier après correction
+    if (!file) return;
+
+    this.error.set(null);
+    this.warning.set(null);
+    try {
+      this.gameService.loadPuzzleFile(this.puzzleFile.parse(await file.text()));
+      this.dailyResult.set(null);
+      this.isLoading.set(false); // Une grille encore attendue du backend vient d'être annulée
+    } catch (err) {
+      this.error.set(this.i18n.describeError(err, 'error.importFile'));
+      console.error('Erreur lors de l\'import:', err);
+    }
+  }
+
+  shareGame(): void {
+    let code: string | null;
+    try {
+      code = this.gameService.getShareCode();
+    } catch (err) {
+      console.error('Grille non partageable:', err);
+      code = null;
+    }
+
+    if (!code) {
+      this.error.set(this.i18n.translate('error.shareUnavailable'));
+      return;
+    }
+
+    const url = window.location.origin + this.location.prepareExternalUrl(`/grille/${code}`);
+    navigator.clipboard.writeText(url).then(
+      () => {
+        this.linkCopied.set(true);
+        setTimeout(() => this.linkCopied.set(false), 2000);
+      },
+      // Presse-papiers indisponible (contexte non sécurisé, permission refusée)
+      () => window.prompt(this.i18n.translate('error.sharePrompt'), url)
+    );
+  }
+
+  private openDailyChallenge(): void {
+    const today = this.dailyChallenge.todayKey();
+
+    // Le défi en cours (en mémoire ou sauvegardé) est repris tel quel
+    if (!this.gameService.hasGame()) {
+      this.gameService.restoreGame();
+    }
+    if (this.store.config()?.defiDuJour === today) return;
+
+    let result = this.dailyChallenge.getResult(today);
+    if (!result) {
+      try {
+        this.gameService.loadDailyChallenge(today);
+      } catch (err) {
+        this.error.set(this.i18n.describeError(err, 'error.dailyGeneration'));
+        console.error('Erreur lors de la génération du défi:', err);
+      }
+      return;
+    }
+
+    // Défi commencé mais plus reprenable : il ne peut pas être rejoué à neuf
+    if (result.status === 'en-cours') {
+      this.dailyChallenge.recordResult({ date: today, status: 'abandonnee' });
+      result = this.dailyChallenge.getResult(today);
+    }
+    this.dailyResult.set(result);
+  }
+
+  private loadSharedGame(code: string): void {
+    try {
+      this.gameService.loadSharedGame(code);
+    } catch (err) {
+      this.error.set(this.i18n.describeError(err, 'error.sharedLink'));
+      console.error('Erreur lors du chargement du lien:', err);
+    }
+
+    // La partie est désormais sauvegardée localement : revenir à l'adresse principale
+    this.location.replaceState('/');
+  }
+
+  private loadCustomGame(config: GameConfig): void {
+    try {
+      const unplaced = this.gameService.loadCustomGame(config);
+      if (unplaced.length > 0) {
+        this.warning.set(this.i18n.translate('error.unplaced', { words: unplaced.join(', ') }));
+      }
+    } catch (err) {
+      this.error.set(this.i18n.describeError(err, 'error.customGrid'));
+      console.error('Erreur lors de la création de la grille:', err);
+    }
+  }
+
+  private loadMysteryGame(config: GameConfig): void {
+    try {
+      this.gameService.loadMysteryGame(config);
+    } catch (err) {
+      this.error.set(this.i18n.describeError(err, 'error.mysteryGrid'));
+      console.error('Erreur lors de la création de la grille:', err);
+    }
+  }
+
   private loadGame(config: GameConfig): void {
-    this.isLoading = true;
-    this.error = null;
-    this.dateDebut = Date.now();
+    // Grilles générées localement, sans attente
+    if (config.motsPersonnalises?.length || config.mystere) {
+      this.error.set(null);
+      this.warning.set(null);
+      this.dailyResult.set(null);
+      this.isLoading.set(false);
+      if (config.mystere) {
+        this.loadMysteryGame(config);
+      } else {
+        this.loadCustomGame(config);
+      }
+      return;
+    }
 
-    this.gameService.loadGame(
+    this.fetchGame(this.gameService.loadGame(
       config.nombre,
       config.langue,
       config.rows,
       config.cols,
       config.longueurMin,
-      config.longueurMax
-    )
+      config.longueurMax,
+      config.directions,
+      config.envers
+    ));
+  }
+
+  private advanceMarathon(): void {
+    timer(MARATHON_ADVANCE_DELAY_MS)
       .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        // Le marathon a pu être arrêté pendant la pause
+        if (this.marathon.isGridCleared()) {
+          this.fetchGame(this.marathon.next());
+        }
+      });
+  }
+
+  // Attend une grille du backend (ou du générateur local), avec indicateur de chargement et erreur affichée
+  private fetchGame(grid$: Observable<unknown>): void {
+    this.error.set(null);
+    this.warning.set(null);
+    this.dailyResult.set(null);
+    this.isLoading.set(true);
+    const load = ++this.loadCount;
+
+    grid$
+      .pipe(
+        takeUntil(this.destroy$),
+        // Demande terminée sans grille (annulée par une autre grille) : plus rien n'est attendu,
+        // sauf si une demande plus récente a pris le relais
+        finalize(() => {
+          if (load === this.loadCount) this.isLoading.set(false);
+        })
+      )
       .subscribe({
         next: () => {
-          this.isLoading = false;
+          this.isLoading.set(false);
+          // Sans ce message, un backend injoignable passerait inaperçu
+          const fallback = this.gameService.localFallback();
+          if (fallback) {
+            this.warning.set(this.i18n.translate('error.localFallback', {
+              reason: this.i18n.describeError(fallback, 'error.unknown')
+            }));
+          }
         },
         error: (err) => {
-          this.isLoading = false;
-
-          // Gestion des erreurs spécifiques du backend
-          if (err.error?.detail) {
-            this.error = err.error.detail;
-          } else if (err.status === 0) {
-            this.error = 'Impossible de se connecter au serveur. Vérifiez que le backend est démarré.';
-          } else if (err.status >= 500) {
-            this.error = 'Erreur serveur. La grille n\'a pas pu être générée avec ces paramètres.';
-          } else {
-            this.error = 'Une erreur est survenue lors de la génération de la grille. Essayez avec d\'autres paramètres.';
-          }
+          this.isLoading.set(false);
+
+          // Erreurs du générateur local, de la vérification de la grille et de l'API
+          this.error.set(this.i18n.describeError(err, 'error.unknown'));
 
           console.error('Erreur lors du chargement:', err);
         }
@@ -106,31 +395,35 @@ export class WordSearchComponent implements OnInit, OnDestroy {
 
   // Gestion de la souris
   onCellMouseDown(cell: Cell): void {
-    if (cell.isFound) return;
-    this.gameService.startSelection(cell);
+    this.onPointerDown(cell);
   }
 
   onCellMouseEnter(cell: Cell): void {
-    if (cell.isFound) return;
-    if (this.gameState.isSelecting) {
+    // Glissé en cours, ou aperçu de la ligne en attendant le second clic
+    if (this.isPointerDown || this.awaitingSecondTap) {
       this.gameService.continueSelection(cell);
     }
   }
 
   onCellMouseUp(): void {
-    this.gameService.endSelection();
+    this.onPointerUp();
+  }
+
+  onGridMouseLeave(): void {
+    if (this.isPointerDown) {
+      this.onPointerUp();
+    }
   }
 
   // Gestion tactile
   onCellTouchStart(event: TouchEvent, cell: Cell): void {
     event.preventDefault(); // Empêcher le comportement par défaut (scroll, zoom)
-    if (cell.isFound) return;
-    this.gameService.startSelection(cell);
+    this.onPointerDown(cell);
   }
 
   onCellTouchMove(event: TouchEvent): void {
     event.preventDefault();
-    if (!this.gameState.isSelecting) return;
+    if (!this.isPointerDown) return;
 
     // Récupérer la position du doigt
     const touch = event.touches[0];
@@ -144,19 +437,14 @@ export class WordSearchComponent implements OnInit, OnDestroy {
       const col = parseInt(element.getAttribute('data-col') || '-1');
 
       if (row >= 0 && col >= 0) {
-        const cell = this.gameState.grid[row]?.[col];
-        if (cell && !cell.isFound) {
+        const cell = this.store.grid()[row]?.[col];
+        if (cell) {
           this.gameService.continueSelection(cell);
         }
       }
     }
   }
 
-  onCellTouchEnd(event: TouchEvent): void {
-    event.preventDefault();
-    this.gameService.endSelection();
-  }
-
   onGridTouchMove(event: TouchEvent): void {
     // Déléguer au gestionnaire de cellule
     this.onCellTouchMove(event);
@@ -164,33 +452,195 @@ export class WordSearchComponent implements OnInit, OnDestroy {
 
   onGridTouchEnd(event: TouchEvent): void {
     event.preventDefault();
+    this.onPointerUp();
+  }
+
+  /**
+   * Un appui démarre une sélection, sauf s'il complète une sélection en deux touches :
+   * toucher le début puis la fin du mot fonctionne comme un glissé.
+   */
+  private onPointerDown(cell: Cell): void {
+    if (this.awaitingSecondTap) {
+      this.awaitingSecondTap = false;
+      this.gameService.continueSelection(cell);
+      this.gameService.endSelection();
+      return;
+    }
+
+    this.isPointerDown = true;
+    this.gameService.startSelection(cell);
+  }
+
+  private onPointerUp(): void {
+    if (!this.isPointerDown) return;
+    this.isPointerDown = false;
+
+    // Simple appui sans glisser : on attend la cellule de fin
+    if (this.store.isSelecting() && this.store.selectedCells().length === 1) {
+      this.awaitingSecondTap = true;
+      return;
+    }
+    this.gameService.endSelection();
+  }
+
+  requestHint(): void {
+    this.gameService.requestHint();
+  }
+
+  // Abandon après confirmation : les mots restants apparaissent un par un sur la grille
+  abandonGame(): void {
+    if (!window.confirm(this.i18n.translate('game.abandonConfirm'))) return;
+
+    this.awaitingSecondTap = false;
+    this.isPointerDown = false;
+    this.announcement.set(this.i18n.translate('announce.abandoned', {
+      count: this.store.words().length - this.store.foundWords().size
+    }));
+    this.gameService.abandonGame()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe();
+  }
+
+  // Gestion du clavier
+  onGridKeyDown(event: KeyboardEvent): void {
+    const move = KEY_MOVES[event.key];
+
+    if (move) {
+      event.preventDefault();
+      this.moveCursor(move[0], move[1]);
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      this.toggleKeyboardSelection();
+    } else if (event.key === 'Escape' && this.store.isSelecting()) {
+      event.preventDefault();
+      this.awaitingSecondTap = false;
+      this.gameService.clearSelection();
+      this.announcement.set(this.i18n.translate('announce.cancelled'));
+    }
+  }
+
+  onCellFocus(cell: Cell): void {
+    this.cursor.set({ row: cell.row, col: cell.col });
+  }
+
+  isCursor(cell: Cell): boolean {
+    const { row, col } = this.cursor();
+    return cell.row === row && cell.col === col;
+  }
+
+  private moveCursor(dr: number, dc: number): void {
+    const { row, col } = this.cursor();
+    const target = this.store.grid()[row + dr]?.[col + dc];
+    if (!target) return;
+
+    this.cursor.set({ row: target.row, col: target.col });
+
+    // Pendant une sélection, elle suit la ligne droite entre l'ancre et le curseur
+    if (this.store.isSelecting()) {
+      this.gameService.continueSelection(target);
+      this.announcement.set(this.i18n.translate('announce.selection', { word: this.store.selectedWord() }));
+    }
+
+    this.focusCursor();
+  }
+
+  private toggleKeyboardSelection(): void {
+    const { row, col } = this.cursor();
+    const cell = this.store.grid()[row]?.[col];
+    if (!cell) return;
+
+    if (!this.store.isSelecting()) {
+      this.gameService.startSelection(cell);
+      this.announcement.set(this.i18n.translate('announce.started', { letter: cell.letter }));
+      return;
+    }
+
+    const selectedWord = this.store.selectedWord();
+    const foundBefore = this.store.foundWords().size;
     this.gameService.endSelection();
+    if (this.store.foundWords().size === foundBefore) {
+      this.announcement.set(this.i18n.translate('announce.notAWord', { word: selectedWord }));
+    }
   }
 
-  isWordFound(word: string): boolean {
-    return this.gameState.foundWords.has(word.toUpperCase());
+  private focusCursor(): void {
+    const { row, col } = this.cursor();
+    this.gridElement?.nativeElement
+      .querySelector<HTMLElement>(`[data-row="${row}"][data-col="${col}"]`)
+      ?.focus();
   }
 
-  getCellClass(cell: Cell): string {
-    const classes = ['cell'];
-    if (cell.isFound) classes.push('found');
-    if (cell.isSelected) classes.push('selected');
-    return classes.join(' ');
+  /**
+   * Nouvelle grille : curseur et mises en évidence remis à zéro. Nouveau mot trouvé
+   * (souris, tactile ou clavier) : annonce via la région live et affichage de sa définition.
+   */
+  private announceChanges(gameId: number, finds: WordFind[]): void {
+    const previous = this.announced;
+    this.announced = { gameId, finds: finds.length };
+
+    if (gameId !== previous.gameId) {
+      this.cursor.set({ row: 0, col: 0 });
+      this.hoveredWord.set(null);
+      this.definitionWord.set(null);
+      return;
+    }
+    if (finds.length <= previous.finds) return;
+
+    const word = finds[finds.length - 1].word;
+    const found = this.store.foundWords().size;
+    const total = this.store.words().length;
+    this.definitionWord.set(word);
+    if (found < total) {
+      this.announcement.set(this.i18n.translate('announce.found', { word, found, total }));
+    } else {
+      this.announcement.set(this.i18n.translate(this.store.mysteryWord() ? 'announce.allFoundMystery' : 'announce.allFound', { word }));
+    }
   }
 
-  getProgress(): number {
-    if (this.gameState.words.length === 0) return 0;
-    return (this.gameState.foundWords.size / this.gameState.words.length) * 100;
+  // Seuls les mots trouvés ou révélés sont mis en évidence, pour ne pas dévoiler la solution
+  onWordHover(item: WordItem | null): void {
+    this.hoveredWord.set(item && (item.found || item.revealed) ? item.word : null);
   }
 
-  isGameComplete(): boolean {
-    this.timeElapsed = this.formatTimeElapsed((Date.now() - this.dateDebut)/60000);
-    return this.gameService.isGameComplete();
+  showDefinition(word: string): void {
+    this.definitionWord.update(current => current === word ? null : word);
   }
 
-  formatTimeElapsed(time: number): string {
-    const minutes = Math.floor(time);
-    const seconds = Math.floor((time - minutes) * 60);
-    return `${minutes}m ${seconds}s`;
+  private buildWordItems(): WordItem[] {
+    const foundWords = this.store.foundWords();
+    const revealedWords = this.store.revealedWords();
+    const hints = this.store.hints();
+    return this.store.words().map((word, index) => ({
+      word,
+      found: foundWords.has(word),
+      revealed: revealedWords.has(word),
+      hint: hints[word] ?? 0,
+      color: WORD_COLORS[index % WORD_COLORS.length]
+    }));
+  }
+
+  private buildWordStrokes(): WordStroke[] {
+    const foundWords = this.store.foundWords();
+    const colors = new Map(this.wordItems().map(item => [item.word, item.color]));
+
+    return [...foundWords, ...this.store.revealedWords()].flatMap(word => {
+      const placement = this.gameService.getWordPlacement(word);
+      if (!placement) return [];
+
+      const [row, col] = placement.start;
+      const [dr, dc] = placement.direction;
+      const length = placement.mot.length - 1;
+      const isFound = foundWords.has(word);
+      // Centre des cellules : chaque cellule (avec sa gouttière) occupe une unité
+      return [{
+        word,
+        x1: col + 0.5,
+        y1: row + 0.5,
+        x2: col + dc * length + 0.5,
+        y2: row + dr * length + 0.5,
+        color: isFound ? colors.get(word) ?? WORD_COLORS[0] : REVEALED_COLOR,
+        revealed: !isFound
+      }];
+    });
   }
 }
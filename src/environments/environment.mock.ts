@@ -0,0 +1,6 @@
+import type { MockScenario } from '../app/mock-backend/mock-backend.interceptor';
+
+// Environnement de développement sans backend : les appels `/api` sont simulés (`npm run start:mock`)
+export const environment: { mockBackend: MockScenario | null } = {
+  mockBackend: 'succes'
+};
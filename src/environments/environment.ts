@@ -0,0 +1,6 @@
+import type { MockScenario } from '../app/mock-backend/mock-backend.interceptor';
+
+// Environnement par défaut : vrai backend, joint par le proxy `/api` (proxy.conf.json)
+export const environment: { mockBackend: MockScenario | null } = {
+  mockBackend: null
+};